@@ -0,0 +1,43 @@
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { createHash, timingSafeEqual } from 'crypto';
+import { readFileSync } from 'fs';
+import { ApiKeyEntry } from '../types/auth.js';
+
+const API_KEY_TTL_S = 365 * 24 * 3600;
+
+function digest(key: string): Buffer {
+	return createHash('sha256').update(key).digest();
+}
+
+function parseEntry(line: string, index: number): ApiKeyEntry | undefined {
+	const trimmed = line.trim();
+	if (!trimmed || trimmed.startsWith('#')) return undefined;
+	const sep = trimmed.indexOf(':');
+	const [name, key] =
+		sep > 0 ? [trimmed.slice(0, sep).trim(), trimmed.slice(sep + 1).trim()] : ['', trimmed];
+	if (!key) return undefined;
+	return { name: name || `key-${index + 1}`, digest: digest(key) };
+}
+
+/**
+ * Reads keys from a comma-separated list and/or a file with one key per line. Both accept an
+ * optional `name:` prefix which becomes the principal of requests using that key.
+ */
+export function loadApiKeys(list?: string, file?: string): ApiKeyEntry[] {
+	const lines = (list || '').split(',');
+	if (file) lines.push(...readFileSync(file, 'utf8').split(/\r?\n/));
+	return lines.map(parseEntry).filter((e): e is ApiKeyEntry => Boolean(e));
+}
+
+export function verifyApiKey(entries: ApiKeyEntry[], token: string): AuthInfo | undefined {
+	const d = digest(token);
+	const match = entries.find(e => timingSafeEqual(e.digest, d));
+	if (!match) return undefined;
+	return {
+		token,
+		clientId: match.name,
+		scopes: [],
+		expiresAt: Math.floor(Date.now() / 1000) + API_KEY_TTL_S,
+		extra: { principal: match.name, method: 'api-key' },
+	};
+}
@@ -0,0 +1,108 @@
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { NextFunction, Request, Response } from 'express';
+import { AuthConfig } from '../types/auth.js';
+import { normalizePrefix, resolveDynamicPrefix } from '../utils/prefix.js';
+import { loadApiKeys, verifyApiKey } from './apiKeys.js';
+import { createJwtVerifier } from './jwtVerifier.js';
+
+type Handler = (req: Request, res: Response) => void;
+
+export interface ShimAuth {
+	authenticate: (req: Request, res: Response, next: NextFunction) => void;
+	/** `<prefix>/.well-known/oauth-protected-resource`, served by the product's router. */
+	protectedResourceMetadata: Handler;
+	/** The same metadata for a router mounted at `mountPath`, served outside it. */
+	protectedResourceMetadataAt: (mountPath: string) => Handler;
+}
+
+/** RFC 9728 location of the metadata of the resource at `prefix`. */
+export const protectedResourceMetadataPath = (prefix: string) =>
+	`/.well-known/oauth-protected-resource${normalizePrefix(prefix)}`;
+
+const list = (v?: string) =>
+	(v || '')
+		.split(',')
+		.map(s => s.trim())
+		.filter(Boolean);
+
+export function readAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig | undefined {
+	const apiKeys = loadApiKeys(env.SHIM_API_KEYS, env.SHIM_API_KEYS_FILE);
+	const issuer = env.OAUTH_ISSUER || '';
+	if (!apiKeys.length && !issuer) return undefined;
+	const audience = list(env.OAUTH_AUDIENCE);
+	// Without an audience any token the issuer signed for another resource would be accepted.
+	if (issuer && !audience.length) throw new Error('OAUTH_AUDIENCE is required with OAUTH_ISSUER');
+	return {
+		apiKeys,
+		oauth: issuer
+			? {
+					issuer,
+					jwksUrl: env.OAUTH_JWKS_URL || undefined,
+					audience,
+					requiredScopes: list(env.OAUTH_REQUIRED_SCOPES),
+				}
+			: undefined,
+		publicUrl: (env.SHIM_PUBLIC_URL || '').replace(/\/+$/, '') || undefined,
+	};
+}
+
+export function principalOf(auth?: AuthInfo): string | undefined {
+	if (!auth) return undefined;
+	const principal = auth.extra?.['principal'];
+	return typeof principal === 'string' && principal ? principal : auth.clientId || undefined;
+}
+
+export function createShimAuth(config: AuthConfig, staticPrefix: string): ShimAuth {
+	const verifyJwt = config.oauth ? createJwtVerifier(config.oauth) : undefined;
+	const verifier: OAuthTokenVerifier = {
+		async verifyAccessToken(token: string): Promise<AuthInfo> {
+			const byKey = verifyApiKey(config.apiKeys, token);
+			if (byKey) return byKey;
+			if (verifyJwt) return verifyJwt(token);
+			throw new InvalidTokenError('Invalid API key');
+		},
+	};
+
+	function resourceUrl(req: Request, mountPath?: string): string {
+		const base = config.publicUrl || `${req.protocol}://${req.get('host')}`;
+		const { prefix } = resolveDynamicPrefix(req, { staticPrefix, mountPath });
+		return `${base}${normalizePrefix(prefix)}`;
+	}
+
+	function sendMetadata(res: Response, resource: string) {
+		if (!config.oauth) {
+			res.status(404).json({ error: 'not_found' });
+			return;
+		}
+		res.status(200).json({
+			resource,
+			authorization_servers: [config.oauth.issuer],
+			bearer_methods_supported: ['header'],
+			...(config.oauth.requiredScopes.length
+				? { scopes_supported: config.oauth.requiredScopes }
+				: {}),
+		});
+	}
+
+	return {
+		authenticate(req, res, next) {
+			const resourceMetadataUrl = config.oauth
+				? `${resourceUrl(req)}/.well-known/oauth-protected-resource`
+				: undefined;
+			const middleware = requireBearerAuth({
+				verifier,
+				requiredScopes: config.oauth?.requiredScopes,
+				resourceMetadataUrl,
+			});
+			void middleware(req, res, next);
+		},
+		protectedResourceMetadata(req, res) {
+			sendMetadata(res, resourceUrl(req));
+		},
+		protectedResourceMetadataAt: mountPath => (req, res) =>
+			sendMetadata(res, resourceUrl(req, mountPath)),
+	};
+}
@@ -0,0 +1,77 @@
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { createRemoteJWKSet, JWTPayload, jwtVerify } from 'jose';
+import { log } from '../log.js';
+
+export interface JwtVerifierOptions {
+	issuer: string;
+	jwksUrl?: string;
+	/** Accepted `aud` values; a token must carry one of them. */
+	audience: string[];
+}
+
+type RemoteJwks = ReturnType<typeof createRemoteJWKSet>;
+
+const DISCOVERY_PATHS = [
+	'/.well-known/openid-configuration',
+	'/.well-known/oauth-authorization-server',
+];
+
+async function discoverJwksUrl(issuer: string): Promise<string> {
+	const base = issuer.replace(/\/+$/, '');
+	for (const path of DISCOVERY_PATHS) {
+		try {
+			const res = await fetch(`${base}${path}`);
+			if (!res.ok) continue;
+			const meta = (await res.json()) as { jwks_uri?: string };
+			if (meta.jwks_uri) return meta.jwks_uri;
+		} catch {
+			void 0;
+		}
+	}
+	throw new Error(`jwks_uri not found in issuer metadata for ${issuer}`);
+}
+
+function scopesOf(payload: JWTPayload): string[] {
+	const raw = payload['scope'] ?? payload['scp'];
+	if (Array.isArray(raw)) return raw.map(String);
+	return typeof raw === 'string' ? raw.split(' ').filter(Boolean) : [];
+}
+
+export function createJwtVerifier({ issuer, jwksUrl, audience }: JwtVerifierOptions) {
+	let jwks: RemoteJwks | undefined;
+	let jwksPromise: Promise<RemoteJwks> | undefined;
+
+	async function ensureJwks(): Promise<RemoteJwks> {
+		if (jwks) return jwks;
+		jwksPromise ??= (async () => {
+			const url = jwksUrl || (await discoverJwksUrl(issuer));
+			log({ evt: 'auth_jwks', msg: 'jwks', url });
+			jwks = createRemoteJWKSet(new URL(url));
+			return jwks;
+		})().finally(() => {
+			jwksPromise = undefined;
+		});
+		return jwksPromise;
+	}
+
+	return async function verifyJwt(token: string): Promise<AuthInfo> {
+		const keySet = await ensureJwks();
+		try {
+			const { payload } = await jwtVerify(token, keySet, {
+				issuer,
+				audience,
+			});
+			const clientId = String(payload['client_id'] ?? payload['azp'] ?? payload.sub ?? '');
+			return {
+				token,
+				clientId,
+				scopes: scopesOf(payload),
+				expiresAt: payload.exp,
+				extra: { principal: payload.sub || clientId, method: 'jwt' },
+			};
+		} catch (e) {
+			throw new InvalidTokenError(e instanceof Error ? e.message : 'Invalid token');
+		}
+	};
+}
@@ -1,39 +1,113 @@
 #!/usr/bin/env node
 import 'dotenv/config';
 import { log } from './log.js';
-import { startConfluenceShim, startJiraShim } from './servers/index.js';
+import { initTracing, readTracingOptions } from './tracing.js';
+import {
+	defaultProducts,
+	loadProductRegistry,
+	parseUpstreamUrls,
+	readProductUpstreamUrls,
+	RegisteredProduct,
+	resolveProducts,
+	createShimRuntime,
+	ShimRuntime,
+	startAdminServer,
+	startShimServer,
+	startSinglePortServer,
+} from './servers/index.js';
 
 interface LaunchConfig {
-	upstreamUrl: string;
+	/** Default replicas for products without their own upstream. */
+	upstreamUrls: string[];
 	jiraPort: number;
 	confluencePort: number;
+	singlePort?: number;
+	registryFile?: string;
+	runtime: ShimRuntime;
 }
 
 function readConfig(): LaunchConfig {
-	const upstreamUrl = process.env.UPSTREAM_MCP_URL || '';
-	if (!upstreamUrl) {
-		console.error('UPSTREAM_MCP_URL env var required (e.g. https://host:7000/mcp or /sse)');
-		process.exit(1);
-	}
 	return {
-		upstreamUrl,
+		upstreamUrls: parseUpstreamUrls(process.env.UPSTREAM_MCP_URL),
 		jiraPort: Number(process.env.JIRA_SHIM_PORT || 7100),
 		confluencePort: Number(process.env.CONFLUENCE_SHIM_PORT || 7200),
+		singlePort: process.env.SHIM_PORT ? Number(process.env.SHIM_PORT) : undefined,
+		registryFile: process.env.SHIM_CONFIG_FILE || undefined,
+		runtime: createShimRuntime(),
 	};
 }
 
+async function readProducts(cfg: LaunchConfig): Promise<RegisteredProduct[]> {
+	if (!cfg.registryFile) {
+		return defaultProducts({ jira: cfg.jiraPort, confluence: cfg.confluencePort });
+	}
+	const products = resolveProducts(await loadProductRegistry(cfg.registryFile));
+	log({
+		evt: 'registry_loaded',
+		msg: 'products loaded',
+		file: cfg.registryFile,
+		products: products.map(p => p.cfg.productKey),
+	});
+	return products;
+}
+
+/** Registry URLs, then `<PRODUCT>_UPSTREAM_MCP_URL`, then `UPSTREAM_MCP_URL`. */
+function upstreamUrlsFor(p: RegisteredProduct, cfg: LaunchConfig): string[] {
+	const own = p.upstreamUrls ?? readProductUpstreamUrls(p.cfg.productKey);
+	return own.length ? own : cfg.upstreamUrls;
+}
+
+async function startProductShim(p: RegisteredProduct, cfg: LaunchConfig) {
+	if (!p.port) throw new Error(`${p.cfg.productKey}: port is required unless SHIM_PORT is set`);
+	return startShimServer(
+		{
+			port: p.port,
+			upstreamUrls: upstreamUrlsFor(p, cfg),
+			publicPrefix: p.publicPrefix,
+		},
+		p.cfg,
+		cfg.runtime,
+	).catch(err => {
+		console.error(`${p.cfg.serverName} failed:`, err);
+		process.exit(1);
+	});
+}
+
 export async function main() {
 	const cfg = readConfig();
 	const startTs = Date.now();
-	log({ evt: 'proxy_start', msg: 'starting proxy', upstreamUrl: cfg.upstreamUrl });
-	await Promise.all([
-		startJiraShim({ port: cfg.jiraPort, upstreamUrl: cfg.upstreamUrl }),
-		startConfluenceShim({ port: cfg.confluencePort, upstreamUrl: cfg.upstreamUrl }),
-	]);
+	log({ evt: 'proxy_start', msg: 'starting proxy', upstreamUrls: cfg.upstreamUrls });
+	if (!cfg.runtime.auth)
+		log({
+			evt: 'auth_disabled',
+			msg: 'no SHIM_API_KEYS / OAUTH_ISSUER configured; endpoints are unauthenticated',
+			lvl: 'warn',
+		});
+	const tracing = initTracing(readTracingOptions());
+	// Spans of the drained calls and of the shutdown itself are flushed last.
+	if (tracing) cfg.runtime.lifecycle.onShutdown(() => tracing.shutdown());
+	const products = await readProducts(cfg);
+	const missing = products.filter(p => !upstreamUrlsFor(p, cfg).length);
+	if (missing.length) {
+		const names = missing.map(p => p.cfg.productKey).join(', ');
+		console.error(
+			`UPSTREAM_MCP_URL or <PRODUCT>_UPSTREAM_MCP_URL required (e.g. https://host:7000/mcp or /sse); no upstream for ${names}`,
+		);
+		process.exit(1);
+	}
+	if (cfg.singlePort) {
+		await startSinglePortServer({
+			port: cfg.singlePort,
+			products: products.map(p => ({ ...p, upstreamUrls: upstreamUrlsFor(p, cfg) })),
+			runtime: cfg.runtime,
+		});
+	} else {
+		await Promise.all(products.map(p => startProductShim(p, cfg)));
+	}
+	await startAdminServer(cfg.runtime);
 	log({
 		evt: 'proxy_ready',
 		msg: 'shims started',
-		upstreamUrl: cfg.upstreamUrl,
 		durationMs: Date.now() - startTs,
 	});
 }
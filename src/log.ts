@@ -8,15 +8,25 @@ interface LogRecordBase {
 	port?: number;
 	url?: string;
 	upstreamUrl?: string;
+	upstreamUrls?: string[];
 	attempt?: number;
 	delayMs?: number;
 	reason?: string;
 	transport?: string;
 	durationMs?: number;
 	ip?: string;
+	principal?: string;
 	prefix?: string;
 	prefixReason?: string;
 	version?: string;
+	file?: string;
+	products?: string[];
+	tools?: string[];
+	poolKey?: string;
+	poolSize?: number;
+	count?: number;
+	docId?: string;
+	exporter?: string;
 }
 
 function plain(r: LogRecordBase) {
@@ -0,0 +1,125 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'shim_' });
+
+const registers = [metricsRegistry];
+
+export const metrics = {
+	toolCalls: new Counter({
+		name: 'shim_tool_calls_total',
+		help: 'search/fetch tool calls by product, tool and outcome (ok, error, exception)',
+		labelNames: ['product', 'tool', 'outcome'] as const,
+		registers,
+	}),
+	toolDuration: new Histogram({
+		name: 'shim_tool_duration_seconds',
+		help: 'search/fetch tool call latency including upstream time',
+		labelNames: ['product', 'tool', 'outcome'] as const,
+		buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+		registers,
+	}),
+	cacheLookups: new Counter({
+		name: 'shim_cache_lookups_total',
+		help: 'Response cache lookups by product, tool and result (hit, miss)',
+		labelNames: ['product', 'tool', 'result'] as const,
+		registers,
+	}),
+	cacheEntries: new Gauge({
+		name: 'shim_cache_entries',
+		help: 'Entries held in the response cache',
+		registers,
+	}),
+	cacheBytes: new Gauge({
+		name: 'shim_cache_bytes',
+		help: 'Approximate serialized size of the response cache',
+		registers,
+	}),
+	activeSessions: new Gauge({
+		name: 'shim_active_sessions',
+		help: 'Open client sessions by product and transport (sse, http)',
+		labelNames: ['product', 'transport'] as const,
+		registers,
+	}),
+	redactions: new Counter({
+		name: 'shim_redactions_total',
+		help: 'Values replaced by redaction rules in search titles and fetched documents',
+		labelNames: ['product', 'tool', 'rule'] as const,
+		registers,
+	}),
+	rateLimited: new Counter({
+		name: 'shim_rate_limited_total',
+		help: 'Client requests rejected with 429 by the per-client rate limit',
+		labelNames: ['product'] as const,
+		registers,
+	}),
+	upstreamInFlight: new Gauge({
+		name: 'shim_upstream_in_flight',
+		help: 'Upstream tool calls holding a concurrency slot',
+		registers,
+	}),
+	upstreamQueued: new Gauge({
+		name: 'shim_upstream_queued',
+		help: 'Upstream tool calls waiting for a concurrency slot',
+		registers,
+	}),
+	upstreamRejected: new Counter({
+		name: 'shim_upstream_rejected_total',
+		help: 'Upstream tool calls rejected by the concurrency queue (queue_full, queue_timeout)',
+		labelNames: ['reason'] as const,
+		registers,
+	}),
+	upstreamConnectAttempts: new Counter({
+		name: 'shim_upstream_connect_attempts_total',
+		help: 'Upstream MCP connect attempts',
+		labelNames: ['product'] as const,
+		registers,
+	}),
+	upstreamConnects: new Counter({
+		name: 'shim_upstream_connects_total',
+		help: 'Successful upstream MCP connections by transport',
+		labelNames: ['product', 'transport'] as const,
+		registers,
+	}),
+	upstreamReconnects: new Counter({
+		name: 'shim_upstream_reconnects_total',
+		help: 'Upstream reconnects scheduled after transport errors, call errors or heartbeat failures',
+		labelNames: ['product'] as const,
+		registers,
+	}),
+	upstreamBackoff: new Histogram({
+		name: 'shim_upstream_backoff_seconds',
+		help: 'Backoff delays before retrying an upstream connection',
+		labelNames: ['product'] as const,
+		buckets: [0.5, 1, 2, 4, 8, 16],
+		registers,
+	}),
+	upstreamHeartbeatFailures: new Counter({
+		name: 'shim_upstream_heartbeat_failures_total',
+		help: 'Upstream heartbeats that exhausted the consecutive failure budget',
+		labelNames: ['product'] as const,
+		registers,
+	}),
+	upstreamFailovers: new Counter({
+		name: 'shim_upstream_failovers_total',
+		help: 'Upstream connections established on a different replica than the previous one',
+		labelNames: ['product'] as const,
+		registers,
+	}),
+	upstreamCallErrors: new Counter({
+		name: 'shim_upstream_call_errors_total',
+		help: 'Upstream tool calls that threw and were retried after reconnecting',
+		labelNames: ['product'] as const,
+		registers,
+	}),
+	upstreamClients: new Gauge({
+		name: 'shim_upstream_clients',
+		help: 'Pooled upstream clients by product',
+		labelNames: ['product'] as const,
+		registers,
+	}),
+};
+
+export function readMetricsEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+	return !/^(0|false|no|off)$/i.test(env.METRICS_ENABLED ?? '');
+}
@@ -0,0 +1,85 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { AccessScope } from '../types/shim.js';
+import { quoteJqlValue } from '../utils/jql.js';
+
+const keyList = z.array(z.string().min(1)).nonempty();
+const scopeSchema = z
+	.object({ allow: keyList.optional(), deny: keyList.optional() })
+	.refine(s => s.allow || s.deny, 'allow or deny is required');
+const productScopes = z.record(scopeSchema);
+const policySchema = z.object({
+	products: productScopes.default({}),
+	principals: z.record(productScopes).default({}),
+});
+
+export type AccessPolicyFile = z.infer<typeof policySchema>;
+
+const normalize = (keys?: string[]) => keys?.map(k => k.trim());
+const normalizeScope = (s: z.infer<typeof scopeSchema>): AccessScope => ({
+	allow: normalize(s.allow),
+	deny: normalize(s.deny),
+});
+
+/**
+ * Allow/deny lists of Jira project and Confluence space keys per product. A principal entry for
+ * a product replaces the product default for that principal.
+ */
+export class AccessPolicy {
+	constructor(private readonly file: AccessPolicyFile) {}
+
+	/** Whether any rule, default or per principal, names `product`. */
+	covers(product: string): boolean {
+		return (
+			product in this.file.products ||
+			Object.values(this.file.principals).some(p => product in p)
+		);
+	}
+
+	scopeFor(product: string, principal?: string): AccessScope | undefined {
+		const own = principal ? this.file.principals[principal]?.[product] : undefined;
+		const scope = own ?? this.file.products[product];
+		return scope ? normalizeScope(scope) : undefined;
+	}
+}
+
+export function loadAccessPolicy(file: string): AccessPolicy {
+	const raw = readFileSync(file, 'utf8');
+	const ext = extname(file).toLowerCase();
+	const data = ext === '.yaml' || ext === '.yml' ? parseYaml(raw) : JSON.parse(raw);
+	const parsed = policySchema.safeParse(data ?? {});
+	if (!parsed.success) {
+		const issues = parsed.error.issues
+			.map(i => `${i.path.join('.') || '<root>'}: ${i.message}`)
+			.join('; ');
+		throw new Error(`invalid access policy ${file}: ${issues}`);
+	}
+	return new AccessPolicy(parsed.data);
+}
+
+export function readAccessPolicy(env: NodeJS.ProcessEnv = process.env): AccessPolicy | undefined {
+	return env.ACCESS_POLICY_FILE ? loadAccessPolicy(env.ACCESS_POLICY_FILE) : undefined;
+}
+
+/**
+ * Whether a project/space key (compared case-insensitively) is inside the scope; unknown keys
+ * pass only when there is no allow list.
+ */
+export function isAllowed(scope: AccessScope, key: string | undefined): boolean {
+	if (key === undefined) return !scope.allow;
+	const k = key.toUpperCase();
+	const has = (keys: string[]) => keys.some(x => x.toUpperCase() === k);
+	if (scope.deny && has(scope.deny)) return false;
+	return !scope.allow || has(scope.allow);
+}
+
+/** JQL/CQL clause restricting `field` to the scope, e.g. `project in ("RND") AND project not in ("SEC")`. */
+export function accessClause(field: string, scope: AccessScope): string {
+	const list = (keys: string[]) => keys.map(quoteJqlValue).join(', ');
+	const parts: string[] = [];
+	if (scope.allow) parts.push(`${field} in (${list(scope.allow)})`);
+	if (scope.deny) parts.push(`${field} not in (${list(scope.deny)})`);
+	return parts.join(' AND ');
+}
@@ -0,0 +1,105 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import express, { NextFunction, Request, Response } from 'express';
+import { log } from '../log.js';
+import { ShimRuntime } from './runtime.js';
+
+/** One open MCP session on `GET /admin/sessions`. */
+export interface SessionSummary {
+	id: string;
+	product: string;
+	transport: 'sse' | 'http';
+	ip: string;
+	principal?: string;
+	/** Public prefix the session was opened under. */
+	prefix?: string;
+	openedAt: string;
+	lastActivity: string;
+	callCount: number;
+}
+
+/** Admin controls of one product shim, registered on the runtime when its router is built. */
+export interface AdminShim {
+	product: string;
+	sessions: () => SessionSummary[];
+	/** False when the session does not exist. */
+	closeSession: (id: string) => Promise<boolean>;
+	/** Forces the product's connected upstream clients to reconnect; returns how many did. */
+	reconnectUpstream: () => number;
+}
+
+const digest = (v: string) => createHash('sha256').update(v).digest();
+
+function requireAdminToken(token: string) {
+	const expected = digest(token);
+	return (req: Request, res: Response, next: NextFunction) => {
+		const [scheme, value] = (req.headers.authorization || '').split(' ');
+		if (
+			scheme?.toLowerCase() !== 'bearer' ||
+			!value ||
+			!timingSafeEqual(digest(value), expected)
+		) {
+			res.status(401).json({ error: 'unauthorized' });
+			return;
+		}
+		next();
+	};
+}
+
+export function createAdminRouter(runtime: ShimRuntime & { adminToken: string }) {
+	const router = express.Router();
+	router.use(requireAdminToken(runtime.adminToken));
+
+	router.get('/cache', (_req, res) => {
+		if (!runtime.cache) return res.status(404).json({ error: 'cache disabled' });
+		res.status(200).json(runtime.cache.stats());
+	});
+
+	router.post('/cache/purge', (req, res) => {
+		if (!runtime.cache) return res.status(404).json({ error: 'cache disabled' });
+		const body = (req.body || {}) as { product?: string; id?: string };
+		const product = body.product ? String(body.product) : undefined;
+		const id = body.id ? String(body.id) : undefined;
+		res.status(200).json({ purged: runtime.cache.purge({ product, id }) });
+	});
+
+	router.get('/sessions', (req, res) => {
+		const product = req.query.product ? String(req.query.product) : undefined;
+		const sessions = [...runtime.shims.values()]
+			.filter(s => !product || s.product === product)
+			.flatMap(s => s.sessions())
+			.sort((a, b) => a.openedAt.localeCompare(b.openedAt));
+		res.status(200).json({ count: sessions.length, sessions });
+	});
+
+	router.delete('/sessions/:id', async (req, res) => {
+		const { id } = req.params;
+		for (const shim of runtime.shims.values()) {
+			if (!(await shim.closeSession(id))) continue;
+			log({ evt: 'admin_session_close', msg: 'closed', shim: shim.product, sessionId: id });
+			return res.status(200).json({ closed: id, product: shim.product });
+		}
+		res.status(404).json({ error: 'session not found' });
+	});
+
+	router.post('/upstream/:product/reconnect', (req, res) => {
+		const shim = runtime.shims.get(req.params.product);
+		if (!shim) return res.status(404).json({ error: 'unknown product' });
+		const reconnected = shim.reconnectUpstream();
+		log({
+			evt: 'admin_upstream_reconnect',
+			msg: 'reconnect',
+			shim: shim.product,
+			count: reconnected,
+		});
+		res.status(200).json({ product: shim.product, reconnected });
+	});
+
+	router.get('/calls', (req, res) => {
+		const limit = req.query.limit === undefined ? undefined : Number(req.query.limit);
+		if (limit !== undefined && !(Number.isInteger(limit) && limit >= 0))
+			return res.status(400).json({ error: 'limit must be a non-negative integer' });
+		res.status(200).json({ calls: runtime.recentCalls.list(limit) });
+	});
+
+	return router;
+}
@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+import { appendFileSync, existsSync, renameSync, statSync, writeFileSync } from 'fs';
+import { log } from '../log.js';
+import { JsonObject, JsonValue } from '../types/json.js';
+import { RedactionCounts } from './redaction.js';
+
+export type AuditRedactMode = 'mask' | 'hash';
+
+export interface AuditLogOptions {
+	/** `stdout` or a file path. */
+	target: string;
+	/** Rotate the file once it would grow past this size. */
+	maxBytes: number;
+	/** Rotated files kept next to the active one (`audit.jsonl.1` … `.N`). */
+	maxFiles: number;
+	/** Dot paths of record fields to redact, e.g. `arguments.query`, `ip`. */
+	redactFields: string[];
+	redactMode: AuditRedactMode;
+}
+
+export interface AuditRecord {
+	session?: string;
+	ip?: string;
+	principal?: string;
+	product: string;
+	tool: string;
+	arguments: JsonObject;
+	/** Query sent upstream (JQL/CQL) when it differs from the tool arguments. */
+	query?: string;
+	ids: string[];
+	urls: string[];
+	/** Matches replaced per redaction rule, when any were. */
+	redactions?: RedactionCounts;
+	durationMs: number;
+	error?: string;
+}
+
+const REDACTED = '[redacted]';
+
+export function readAuditLogOptions(
+	env: NodeJS.ProcessEnv = process.env,
+): AuditLogOptions | undefined {
+	const target = (env.AUDIT_LOG || '').trim();
+	if (!target || /^(0|false|no|off)$/i.test(target)) return undefined;
+	const redactMode = (env.AUDIT_REDACT_MODE || 'mask').toLowerCase();
+	if (redactMode !== 'mask' && redactMode !== 'hash')
+		throw new Error('AUDIT_REDACT_MODE must be mask or hash');
+	return {
+		target,
+		maxBytes: Number(env.AUDIT_LOG_MAX_BYTES || 10 * 1024 * 1024),
+		maxFiles: Number(env.AUDIT_LOG_MAX_FILES ?? 5),
+		redactFields: (env.AUDIT_REDACT_FIELDS || '')
+			.split(',')
+			.map(f => f.trim())
+			.filter(Boolean),
+		redactMode,
+	};
+}
+
+function redactValue(value: JsonValue, mode: AuditRedactMode): JsonValue {
+	if (mode === 'mask') return REDACTED;
+	const digest = createHash('sha256').update(JSON.stringify(value)).digest('hex');
+	return `sha256:${digest.slice(0, 16)}`;
+}
+
+/** Replaces the value at `path` in place; arrays on the way apply the rest of the path per item. */
+function redactPath(target: JsonValue, path: string[], mode: AuditRedactMode) {
+	if (target === null || typeof target !== 'object') return;
+	if (Array.isArray(target)) {
+		for (const item of target) redactPath(item, path, mode);
+		return;
+	}
+	const [head, ...rest] = path;
+	if (!(head in target) || target[head] === undefined) return;
+	if (rest.length) redactPath(target[head], rest, mode);
+	else target[head] = redactValue(target[head], mode);
+}
+
+/**
+ * Append-only JSONL audit trail of tool invocations. Writes are synchronous so a record is on
+ * disk before the tool result is returned to the client.
+ */
+export class AuditLog {
+	private size = 0;
+	private failed = false;
+
+	constructor(readonly opts: AuditLogOptions) {
+		if (this.toFile && existsSync(opts.target)) this.size = statSync(opts.target).size;
+	}
+
+	private get toFile() {
+		return this.opts.target !== 'stdout';
+	}
+
+	write(record: AuditRecord) {
+		const rec = JSON.parse(
+			JSON.stringify({ t: new Date().toISOString(), ...record }),
+		) as JsonObject;
+		for (const field of this.opts.redactFields)
+			redactPath(rec, field.split('.'), this.opts.redactMode);
+		const line = JSON.stringify(rec) + '\n';
+		if (!this.toFile) {
+			process.stdout.write(line);
+			return;
+		}
+		try {
+			const bytes = Buffer.byteLength(line);
+			if (this.size > 0 && this.size + bytes > this.opts.maxBytes) this.rotate();
+			appendFileSync(this.opts.target, line);
+			this.size += bytes;
+			this.failed = false;
+		} catch (e) {
+			// Report once per failure streak instead of once per tool call.
+			if (this.failed) return;
+			this.failed = true;
+			log({
+				evt: 'audit_write_error',
+				msg: 'audit write failed',
+				lvl: 'error',
+				file: this.opts.target,
+				reason: e instanceof Error ? e.message : String(e),
+			});
+		}
+	}
+
+	private rotate() {
+		const { target, maxFiles } = this.opts;
+		for (let i = maxFiles - 1; i >= 1; i--)
+			if (existsSync(`${target}.${i}`)) renameSync(`${target}.${i}`, `${target}.${i + 1}`);
+		if (maxFiles > 0) renameSync(target, `${target}.1`);
+		else writeFileSync(target, '');
+		this.size = 0;
+	}
+}
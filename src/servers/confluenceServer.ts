@@ -1,14 +1,28 @@
 import { JsonObject, JsonValue } from '../types/json.js';
-import { FetchDelegate, SearchDelegate, ShimOptions } from '../types/shim.js';
-import { FetchedDocument, SearchResults } from '../types/tools.js';
+import {
+	AccessDelegate,
+	FactsDelegate,
+	FetchDelegate,
+	ProductShimConfig,
+	SearchDelegate,
+	ShimOptions,
+} from '../types/shim.js';
+import { FetchedDocument, SearchPage, SearchResults } from '../types/tools.js';
+import { buildCql, siteSearchToText } from '../utils/cql.js';
+import { andClause } from '../utils/jql.js';
+import { looksLikeStorageFormat, storageToMarkdown } from '../utils/storageToMarkdown.js';
 import {
 	CONFLUENCE_DEFAULT_FETCH_DESCRIPTION,
 	CONFLUENCE_DEFAULT_SEARCH_DESCRIPTION,
 } from './descriptions.js';
+import { accessClause } from './accessPolicy.js';
 import { startShimServer } from './shimFactory.js';
+import { rankByFrequency } from './toolDescriptions.js';
 
 const CONFLUENCE_SEARCH_TOOL = 'confluence_search';
 const CONFLUENCE_FETCH_TOOL = 'confluence_get_page';
+// confluence_search has no offset argument and caps `limit` at 50; later pages are sliced locally.
+const CONFLUENCE_MAX_RESULTS = 50;
 
 function normalizeConfluenceUrl(urlVal: JsonValue, fallbackAbsolute?: string): string {
 	const raw = typeof urlVal === 'string' ? urlVal : '';
@@ -47,10 +61,19 @@ function toLitePage(v: JsonValue): ConfluenceLitePage | undefined {
 }
 
 const confluenceSearchDelegate: SearchDelegate = {
-	prepareSearchArguments(query: string): JsonObject {
-		return { query, limit: 20 };
+	maxResults: CONFLUENCE_MAX_RESULTS,
+	prepareSearchArguments(query: string, page: SearchPage): JsonObject {
+		return {
+			query: buildCql(query),
+			limit: Math.min(CONFLUENCE_MAX_RESULTS, page.startAt + page.limit),
+		};
+	},
+	// Server/Data Center instances without siteSearch reject it; retry once with text ~.
+	fallbackSearchArguments(args: JsonObject): JsonObject | undefined {
+		const query = siteSearchToText(String(args['query'] ?? ''));
+		return query ? { ...args, query } : undefined;
 	},
-	mapSearchResults(raw: JsonValue): SearchResults {
+	mapSearchResults(raw: JsonValue, page: SearchPage, args: JsonObject): SearchResults {
 		const base: JsonValue = raw;
 		let listSrc: JsonValue[] = [];
 		if (Array.isArray(base)) listSrc = base as JsonValue[];
@@ -60,12 +83,27 @@ const confluenceSearchDelegate: SearchDelegate = {
 			if (Array.isArray(maybe)) listSrc = maybe as JsonValue[];
 		}
 		const results = listSrc
+			.slice(page.startAt, page.startAt + page.limit)
 			.map(v => toLitePage(v))
 			.filter((p): p is ConfluenceLitePage => Boolean(p));
-		return { results };
+		return { results, query: String(args['query'] ?? '') };
 	},
 };
 
+// Markdown when upstream converted it, otherwise storage (or view) XHTML in any of the usual spots.
+function pageBody(doc: Record<string, JsonValue>, meta: Record<string, JsonValue>): string {
+	const body = rec(meta['body'] ?? doc['body']);
+	const candidates = [
+		rec(doc['content'])['value'],
+		rec(meta['content'])['value'],
+		rec(body['storage'])['value'],
+		rec(body['view'])['value'],
+		typeof doc['content'] === 'string' ? doc['content'] : undefined,
+	];
+	const found = candidates.find(v => typeof v === 'string' && v.trim());
+	return typeof found === 'string' ? found : '';
+}
+
 const confluenceFetchDelegate: FetchDelegate = {
 	prepareFetchArguments(id: string): JsonObject {
 		return { page_id: id, include_metadata: true, convert_to_markdown: true };
@@ -83,17 +121,26 @@ const confluenceFetchDelegate: FetchDelegate = {
 		const rawUrl = (meta['url'] ?? links['webui'] ?? '') as string;
 		const absolute = typeof meta['url'] === 'string' ? (meta['url'] as string) : undefined;
 		const url = normalizeConfluenceUrl(rawUrl, absolute);
-		const contentObj = rec(doc['content']);
-		const metaContent = rec(meta['content']);
-		const textCandidate = (contentObj['value'] ||
-			metaContent['value'] ||
-			JSON.stringify(doc, null, 2)) as string;
-		const text = String(textCandidate);
-
-		// Metadata enrichment: copy remaining doc fields + refined meta subset
-		const exclude = new Set<string>(['id', 'pageId', 'title', 'url', '_links']);
+		const body = pageBody(doc, meta);
+		const text = body
+			? looksLikeStorageFormat(body)
+				? storageToMarkdown(body)
+				: body
+			: JSON.stringify(doc, null, 2);
+
+		// Metadata enrichment: copy remaining doc fields + refined meta subset; the body is in text
+		const exclude = new Set<string>([
+			'id',
+			'pageId',
+			'title',
+			'url',
+			'_links',
+			'content',
+			'body',
+		]);
 		const metadata: JsonObject = { source: 'confluence' };
-		for (const [k, v] of Object.entries(doc)) if (!exclude.has(k)) metadata[k] = v as JsonValue;
+		for (const [k, v] of Object.entries(doc))
+			if (!exclude.has(k) && v !== meta) metadata[k] = v as JsonValue;
 		const metaCopy: Record<string, JsonValue> = {};
 		for (const [k, v] of Object.entries(meta))
 			if (!exclude.has(k)) metaCopy[k] = v as JsonValue;
@@ -103,21 +150,89 @@ const confluenceFetchDelegate: FetchDelegate = {
 	},
 };
 
+// Cloud (`/spaces/KEY/pages/…`) and Server (`/display/KEY/…`) page URLs name the space.
+function spaceOfUrl(url: string): string | undefined {
+	const m = /\/(?:spaces|display)\/([^/?#]+)/.exec(url);
+	return m ? decodeURIComponent(m[1]) : undefined;
+}
+
+function spaceOfDocument(doc: FetchedDocument): string | undefined {
+	const meta = rec(doc.metadata['pageMeta']);
+	const candidates = [
+		rec(meta['space'])['key'],
+		meta['space'],
+		meta['spaceKey'],
+		rec(doc.metadata['space'])['key'],
+		doc.metadata['space'],
+	];
+	const found = candidates.find(v => typeof v === 'string' && v);
+	return typeof found === 'string' ? found : spaceOfUrl(doc.url);
+}
+
+const confluenceAccessDelegate: AccessDelegate = {
+	containerLabel: 'space',
+	constrainSearchArguments(args, scope) {
+		const query = andClause(String(args['query'] ?? ''), accessClause('space', scope));
+		return { ...args, query };
+	},
+	containerOfResult: item => spaceOfUrl(item.url),
+	// Page ids do not reveal the space; the fetched page is checked instead.
+	containerOfId: () => undefined,
+	containerOfDocument: spaceOfDocument,
+};
+
+// Spaces of recently modified pages, most active first; personal (~user) spaces are left out.
+const confluenceFactsDelegate: FactsDelegate = {
+	examples: { spaceKeys: 'DEV' },
+	async collectFacts(call) {
+		const raw = await call(CONFLUENCE_SEARCH_TOOL, {
+			query: 'type = page ORDER BY lastmodified DESC',
+			limit: CONFLUENCE_MAX_RESULTS,
+		});
+		const pages = Array.isArray(raw) ? raw : rec(raw)['results'];
+		const names = new Map<string, string>();
+		const seen: string[] = [];
+		for (const page of Array.isArray(pages) ? pages : []) {
+			const r = rec(page);
+			const space = r['space'];
+			const key =
+				typeof space === 'string'
+					? space
+					: String(rec(space)['key'] ?? spaceOfUrl(String(r['url'] ?? '')) ?? '');
+			if (!key || key.startsWith('~')) continue;
+			const name = rec(space)['name'];
+			if (typeof name === 'string' && name) names.set(key, name);
+			seen.push(key);
+		}
+		const keys = rankByFrequency(seen);
+		return {
+			spaceKeys: keys.map(k => ({ value: k, containers: [k] })),
+			spaces: keys.map(k => ({
+				value: names.get(k) ? `${k} (${names.get(k)})` : k,
+				containers: [k],
+			})),
+		};
+	},
+};
+
+export const CONFLUENCE_SHIM_CONFIG: ProductShimConfig = {
+	productKey: 'confluence',
+	serverName: 'confluence-shim',
+	upstreamSearchTool: CONFLUENCE_SEARCH_TOOL,
+	upstreamFetchTool: CONFLUENCE_FETCH_TOOL,
+	defaultSearchDescription: CONFLUENCE_DEFAULT_SEARCH_DESCRIPTION,
+	defaultFetchDescription: CONFLUENCE_DEFAULT_FETCH_DESCRIPTION,
+	searchDelegate: confluenceSearchDelegate,
+	fetchDelegate: confluenceFetchDelegate,
+	accessDelegate: confluenceAccessDelegate,
+	factsDelegate: confluenceFactsDelegate,
+};
+
 export async function startConfluenceShim(opts: ShimOptions) {
-	return startShimServer(
-		{ ...opts, publicPrefix: '/confluence' },
-		{
-			productKey: 'confluence',
-			serverName: 'confluence-shim',
-			upstreamSearchTool: CONFLUENCE_SEARCH_TOOL,
-			upstreamFetchTool: CONFLUENCE_FETCH_TOOL,
-			defaultSearchDescription: CONFLUENCE_DEFAULT_SEARCH_DESCRIPTION,
-			defaultFetchDescription: CONFLUENCE_DEFAULT_FETCH_DESCRIPTION,
-			searchDelegate: confluenceSearchDelegate,
-			fetchDelegate: confluenceFetchDelegate,
+	return startShimServer({ ...opts, publicPrefix: '/confluence' }, CONFLUENCE_SHIM_CONFIG).catch(
+		err => {
+			console.error('confluence-shim failed:', err);
+			process.exit(1);
 		},
-	).catch(err => {
-		console.error('confluence-shim failed:', err);
-		process.exit(1);
-	});
+	);
 }
@@ -0,0 +1,59 @@
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import { PassthroughMode, UpstreamCredential, UpstreamPoolConfig } from '../types/upstream.js';
+
+const PASSTHROUGH_MODES: PassthroughMode[] = ['off', 'header', 'oauth'];
+
+export function readUpstreamPoolConfig(env: NodeJS.ProcessEnv = process.env): UpstreamPoolConfig {
+	const mode = (env.UPSTREAM_AUTH_PASSTHROUGH || 'off').toLowerCase() as PassthroughMode;
+	if (!PASSTHROUGH_MODES.includes(mode))
+		throw new Error(`UPSTREAM_AUTH_PASSTHROUGH must be one of ${PASSTHROUGH_MODES.join(', ')}`);
+	return {
+		passthrough: mode,
+		credentialHeader: (env.UPSTREAM_AUTH_HEADER || 'x-atlassian-authorization').toLowerCase(),
+		credentialScheme: env.UPSTREAM_AUTH_SCHEME || 'Token',
+		forwardHeaders: (env.UPSTREAM_FORWARD_HEADERS || 'x-atlassian-cloud-id')
+			.split(',')
+			.map(h => h.trim().toLowerCase())
+			.filter(Boolean),
+		requireCredential: /^(1|true|yes)$/i.test(env.UPSTREAM_AUTH_REQUIRED || ''),
+		maxClients: Number(env.UPSTREAM_POOL_MAX || 50),
+		idleMs: Number(env.UPSTREAM_IDLE_MS || 120_000),
+		replicaCooldownMs: Number(env.UPSTREAM_REPLICA_COOLDOWN_MS || 30_000),
+	};
+}
+
+function credentialFromRequest(req: Request, cfg: UpstreamPoolConfig): string | undefined {
+	if (cfg.passthrough === 'oauth') {
+		// Only tokens validated as JWTs are user tokens; API keys identify shim clients.
+		return req.auth?.extra?.['method'] === 'jwt' ? `Bearer ${req.auth.token}` : undefined;
+	}
+	if (cfg.passthrough === 'header') {
+		const raw = (req.headers[cfg.credentialHeader] || '').toString().trim();
+		if (!raw) return undefined;
+		return /^\w+\s+\S/.test(raw) ? raw : `${cfg.credentialScheme} ${raw}`;
+	}
+	return undefined;
+}
+
+/**
+ * Builds the per-request upstream credential. `undefined` means the shared service-account
+ * client; the pool key is a digest so raw tokens never appear in logs or map keys.
+ */
+export function resolveUpstreamCredential(
+	req: Request,
+	cfg: UpstreamPoolConfig,
+): UpstreamCredential | undefined {
+	const authorization = credentialFromRequest(req, cfg);
+	if (!authorization) return undefined;
+	const headers: Record<string, string> = { Authorization: authorization };
+	for (const name of cfg.forwardHeaders) {
+		const v = req.headers[name];
+		if (v) headers[name] = v.toString();
+	}
+	const key = createHash('sha256')
+		.update(JSON.stringify(Object.entries(headers).sort()))
+		.digest('hex')
+		.slice(0, 16);
+	return { key, headers };
+}
@@ -0,0 +1,112 @@
+import { JsonObject, JsonValue } from '../types/json.js';
+import { FetchDelegate, SearchDelegate } from '../types/shim.js';
+import { FetchedDocument, SearchPage, SearchResultItem, SearchResults } from '../types/tools.js';
+import { FieldPath, getFirstPath } from '../utils/fieldPath.js';
+import { placeholderNames, renderString, renderTemplate } from '../utils/template.js';
+
+export interface SearchResultMapping {
+	list?: FieldPath;
+	id: FieldPath;
+	title: FieldPath;
+	url?: FieldPath;
+	urlTemplate?: string;
+	total?: FieldPath;
+}
+
+export interface FetchResultMapping {
+	root?: FieldPath;
+	id: FieldPath;
+	title: FieldPath;
+	text?: FieldPath;
+	url?: FieldPath;
+	urlTemplate?: string;
+	metadata?: Record<string, FieldPath>;
+}
+
+export interface TemplateSearchSpec {
+	arguments: JsonObject;
+	results: SearchResultMapping;
+	maxResults?: number;
+}
+
+export interface TemplateFetchSpec {
+	arguments: JsonObject;
+	result: FetchResultMapping;
+}
+
+const asString = (v: JsonValue | undefined): string =>
+	v === undefined || v === null ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v);
+
+function listFrom(raw: JsonValue, path: FieldPath | undefined): JsonValue[] {
+	if (path === undefined) {
+		if (Array.isArray(raw)) return raw;
+		const fallback = getFirstPath(raw, ['results', 'items', 'values', 'issues', 'data']);
+		return Array.isArray(fallback) ? fallback : [];
+	}
+	const found = getFirstPath(raw, path);
+	return Array.isArray(found) ? found : [];
+}
+
+function resolveUrl(item: JsonValue, id: string, path?: FieldPath, urlTemplate?: string): string {
+	const direct = asString(getFirstPath(item, path));
+	if (direct) return direct;
+	return urlTemplate ? renderString(urlTemplate, { id }) : '';
+}
+
+export function createTemplateSearchDelegate(
+	productKey: string,
+	spec: TemplateSearchSpec,
+): SearchDelegate {
+	return {
+		maxResults: spec.maxResults,
+		paged: placeholderNames(JSON.stringify(spec.arguments)).includes('startAt'),
+		prepareSearchArguments(query: string, { startAt, limit }: SearchPage): JsonObject {
+			return renderTemplate(spec.arguments, { query, startAt, limit }) as JsonObject;
+		},
+		mapSearchResults(raw: JsonValue): SearchResults {
+			const { results: m } = spec;
+			const results: SearchResultItem[] = [];
+			for (const item of listFrom(raw, m.list)) {
+				const id = asString(getFirstPath(item, m.id));
+				if (!id) continue;
+				results.push({
+					id,
+					title: asString(getFirstPath(item, m.title)) || `${productKey} ${id}`,
+					url: resolveUrl(item, id, m.url, m.urlTemplate),
+				});
+			}
+			const total = getFirstPath(raw, m.total);
+			return typeof total === 'number' ? { results, total } : { results };
+		},
+	};
+}
+
+export function createTemplateFetchDelegate(
+	productKey: string,
+	spec: TemplateFetchSpec,
+): FetchDelegate {
+	return {
+		prepareFetchArguments(id: string): JsonObject {
+			return renderTemplate(spec.arguments, { id }) as JsonObject;
+		},
+		mapFetchResults(raw: JsonValue): FetchedDocument {
+			const { result: m } = spec;
+			const doc = m.root === undefined ? raw : (getFirstPath(raw, m.root) ?? raw);
+			const id = asString(getFirstPath(doc, m.id)) || 'unknown';
+			const textVal = getFirstPath(doc, m.text);
+			const metadata: JsonObject = { source: productKey };
+			for (const [k, p] of Object.entries(m.metadata ?? {})) {
+				const v = getFirstPath(doc, p);
+				if (v !== undefined) metadata[k] = v;
+			}
+			return {
+				id,
+				title: asString(getFirstPath(doc, m.title)) || `${productKey} ${id}`,
+				text:
+					typeof textVal === 'string' ? textVal : JSON.stringify(textVal ?? doc, null, 2),
+				url: resolveUrl(doc, id, m.url, m.urlTemplate),
+				metadata,
+			};
+		},
+	};
+}
@@ -1,36 +1,44 @@
+// Templates: `{{list}}` and `{{list.first}}` are filled with site facts read from the upstream
+// (see toolDescriptions.ts); lines whose lists are still empty are left out.
+
 export const JIRA_DEFAULT_SEARCH_DESCRIPTION = `
-Search Jira issues (limit 20). Input can be natural language (auto converted to JQL: text ~ "<query>" ORDER BY updated DESC) OR raw JQL (detected via JQL keywords like project, status, =, ORDER BY, etc.). If the user explicitly gives an issue key (e.g. RND-123) you can fetch directly; otherwise search first to narrow scope.
+Search Jira issues (20 per page). Input can be valid JQL (used as is) OR natural language, which is converted to JQL: issue keys become key = X, phrases like "my open bugs" become assignee/resolution/issuetype clauses, known project keys become project = X and the remaining words a text ~ "<words>" search. The executed JQL is returned as query; refine it and search again if results are off. If the user explicitly gives an issue key (e.g. RND-123) you can fetch directly; otherwise search first to narrow scope.
 
 Examples (JQL):
 - Find Epics: issuetype = Epic
-- Issues in Epic / parent: parent = PROJ-123
+- Issues in Epic / parent: parent = {{projectKeys.first}}-123
 - By status: status = 'In Progress'
 - By assignee: assignee = currentUser()
 - Recently updated: updated >= -7d
 - By label: labels = frontend
 - Multiple labels: labels in (frontend, ui)
 - By priority: priority = High
-- By component (team): component = Backend   ("component" often maps to team)
+- By component (team): component = "{{components.first}}"   ("component" often maps to team)
 - Multiple components: component in (Backend, API)
 - Exact phrase in summary: summary ~ '"payment failure"'
 - Free text content: text ~ "authentication timeout" ORDER BY updated DESC
 
+This site:
+- Projects: {{projects}}
+- Common components: {{components}}
+- Issue types: {{issueTypes}}
+
 Notes:
 - Use labels or components when user asks "by label", or "by team" (map team -> component).
 - Quote values with spaces or special characters.
 
-Returns up to 20 issues: id=issue key, title=summary, url=citation URL. Use before fetch unless an exact key is already provided.`;
+Returns up to 20 issues: id=issue key, title=summary, url=citation URL, plus total when known and query=executed JQL. If nextCursor is present, call search again with cursor=nextCursor (or query="cursor:<nextCursor>") for the next page. Use before fetch unless an exact key is already provided.`;
 
 export const JIRA_DEFAULT_FETCH_DESCRIPTION =
-	'Fetch a Jira issue by key (id) (for example RND-12345). Returns id, title, text (summary, description, status, top 5 comments) and url plus enriched metadata (source=jira, statusObject, commentsExcerpt, all other raw fields except those promoted). Use if you are asked to immediately find a task by its key (id) or search for detailed context or citation.';
+	'Fetch a Jira issue by key (id) (for example RND-12345). Returns id, title, url and text: a Markdown document with key fields (type, status, priority, assignee, reporter, labels, components, fix versions, sprint, parent/epic), description, linked issues, subtasks, attachments and the full comment thread with timestamps. metadata carries source=jira plus status, assignee and comment/attachment counts. Long issues may be split into parts: metadata.chunk.remaining then lists ids such as RND-12345#2 that fetch accepts for the rest. Use if you are asked to immediately find a task by its key (id) or search for detailed context or citation.';
 
 export const CONFLUENCE_DEFAULT_SEARCH_DESCRIPTION = `
-Search Confluence pages (limit 20). Query may be simple text (e.g. "project documentation") OR full CQL.
+Search Confluence pages (20 per page, up to 50 in total). Query may be simple text (e.g. "project documentation") OR full CQL.
 
 Simple text queries behave like: siteSearch ~ "<text>" (mimicking WebUI) with automatic fallback to text ~ "<text>" if siteSearch unsupported.
 
 Examples (CQL):
-- Basic: type=page AND space=DEV
+- Basic: type=page AND space={{spaceKeys.first}}
 - Personal space: space="~username"   (personal space keys starting with ~ must be quoted)
 - Search by title: title~"Meeting Notes"
 - Use siteSearch: siteSearch ~ "important concept"
@@ -45,9 +53,11 @@ Examples (CQL):
 - Exact phrase & label: text ~ '"Urgent Review Required"' AND label = "pending-approval"
 - Title wildcard: title ~ "Minutes*" AND (space = "HR" OR space = "Marketing")
 
+Spaces on this site: {{spaces}}
+
 Note: Quote personal space keys (~username), reserved words, numeric IDs, and identifiers with special characters.
 
-Returns up to 20 pages with id=page id, title=page title, url=citation URL for follow-up fetch. Use search before fetch for context narrowing.`;
+Returns up to 20 pages with id=page id, title=page title, url=citation URL for follow-up fetch, plus query=executed CQL. If nextCursor is present, call search again with cursor=nextCursor (or query="cursor:<nextCursor>") for the next page. Use search before fetch for context narrowing.`;
 
 export const CONFLUENCE_DEFAULT_FETCH_DESCRIPTION =
-	'Fetch a Confluence page by id. Returns id, title, text (markdown if available) and url plus enriched metadata (source=confluence, pageMeta, original raw fields except those promoted). Use after search for detailed context or citation.';
+	'Fetch a Confluence page by id. Returns id, title, text (page body as Markdown, including code blocks, panels, tables and task lists) and url plus enriched metadata (source=confluence, pageMeta, original raw fields except those promoted). Long pages may be split into parts: metadata.chunk.remaining then lists ids such as 123456#2 that fetch accepts for the rest. Use after search for detailed context or citation.';
@@ -0,0 +1,58 @@
+import { JsonObject } from '../types/json.js';
+import { FetchedDocument } from '../types/tools.js';
+import { chunkMarkdown } from '../utils/markdownChunks.js';
+
+/** Rough size of a token in Markdown prose; budgets are configured in tokens. */
+export const CHARS_PER_TOKEN = 4;
+// Room for the continuation footer appended to every chunk.
+const FOOTER_CHARS = 160;
+
+export interface ChunkRef {
+	id: string;
+	/** 1-based part number; `ID` and `ID#1` both name the first part. */
+	part: number;
+}
+
+export function readFetchMaxTokens(env: NodeJS.ProcessEnv = process.env): number {
+	return Number(env.FETCH_MAX_TOKENS || 0);
+}
+
+export function parseChunkId(id: string): ChunkRef {
+	const m = /^(.+)#(\d+)$/.exec(id);
+	return m ? { id: m[1], part: Number(m[2]) } : { id, part: 1 };
+}
+
+export const chunkId = (id: string, part: number) => (part === 1 ? id : `${id}#${part}`);
+
+/**
+ * One part of a document split to fit `maxTokens`, or undefined when the part does not exist.
+ * Documents within budget (or without one) are returned whole as part 1. The first part keeps
+ * the full metadata; every part lists the ids of the parts after it in `metadata.chunk`.
+ */
+export function documentPart(
+	doc: FetchedDocument,
+	part: number,
+	maxTokens: number,
+): FetchedDocument | undefined {
+	const chunks =
+		maxTokens > 0
+			? chunkMarkdown(doc.text, Math.max(maxTokens * CHARS_PER_TOKEN - FOOTER_CHARS, 200))
+			: [doc.text];
+	if (part < 1 || part > chunks.length) return undefined;
+	if (chunks.length === 1) return doc;
+	const total = chunks.length;
+	const remaining: string[] = [];
+	for (let p = part + 1; p <= total; p++) remaining.push(chunkId(doc.id, p));
+	const footer = remaining.length
+		? `_Part ${part} of ${total}. Fetch \`${remaining[0]}\` for the next part._`
+		: `_Part ${part} of ${total}._`;
+	const chunk: JsonObject = { part, total, remaining };
+	return {
+		id: chunkId(doc.id, part),
+		title: doc.title,
+		text: `${chunks[part - 1]}\n\n---\n${footer}`,
+		url: doc.url,
+		metadata:
+			part === 1 ? { ...doc.metadata, chunk } : { source: doc.metadata['source'], chunk },
+	};
+}
@@ -1,77 +1,299 @@
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import cors from 'cors';
+import { randomUUID } from 'crypto';
 import express, { Request, Response } from 'express';
+import { createShimAuth, principalOf, protectedResourceMetadataPath } from '../auth/index.js';
 import { log } from '../log.js';
+import { metrics, metricsRegistry } from '../metrics.js';
+import { traceMcpRequests } from '../tracing.js';
 import { ProductShimConfig, ShimOptions } from '../types/shim.js';
 import { getClientIp, startKeepAlive } from '../utils/net.js';
 import { normalizePrefix, resolveDynamicPrefix } from '../utils/prefix.js';
 import { VERSION } from '../version.js';
 import { buildMcpServer } from './mcpServerFactory.js';
-import { createUpstreamClient, UpstreamCallable } from './upstreamClient.js';
+import { createAdminRouter, SessionSummary } from './adminRouter.js';
+import { resolveUpstreamCredential } from './credentials.js';
+import { createRateLimitMiddleware } from './rateLimit.js';
+import { createRedactor } from './redaction.js';
+import { LifecycleManager } from './lifecycle.js';
+import { ToolCallRecord } from './recentCalls.js';
+import { descriptionTemplates, ToolDescriptions } from './toolDescriptions.js';
+import { ShimRuntime } from './runtime.js';
+import { PooledClientStatus, UpstreamPool } from './upstreamPool.js';
+import { logToolsStatus, mergeAliases, UpstreamToolsStatus } from './upstreamTools.js';
 
-export interface CreateHttpServerOptions {
-	opts: ShimOptions;
+export interface CreateShimRouterOptions {
 	cfg: ProductShimConfig;
-	upstreamUrl: string;
+	upstreamUrls: string[];
 	staticPrefix: string;
+	runtime: ShimRuntime;
+}
+
+export interface CreateHttpServerOptions extends CreateShimRouterOptions {
+	opts: ShimOptions;
 	initTs: number;
 }
 
-export function createHttpServer({
-	opts,
-	cfg,
-	upstreamUrl,
-	staticPrefix,
-	initTs,
-}: CreateHttpServerOptions) {
+export interface MountedShimOptions {
+	cfg: ProductShimConfig;
+	upstreamUrls: string[];
+	mountPath: string;
+}
+
+export interface CreateSinglePortServerOptions {
+	port: number;
+	shims: MountedShimOptions[];
+	initTs: number;
+	runtime: ShimRuntime;
+}
+
+export interface ShimSession {
+	transport: SSEServerTransport | StreamableHTTPServerTransport;
+	ip: string;
+	principal?: string;
+	prefix?: string;
+	openedAt: number;
+	lastActivity: number;
+	callCount: number;
+	releaseUpstream?: () => void;
+}
+
+export interface ShimReadiness {
+	ready: boolean;
+	reason?: string;
+}
+
+/** One product on `/status`. */
+export interface ShimStatus extends ShimReadiness {
+	sessions: number;
+	/** `idle` when no upstream client is open (never needed yet, or idle-closed). */
+	upstream: PooledClientStatus['state'] | 'idle';
+	clients: PooledClientStatus[];
+	lastError?: PooledClientStatus['lastError'];
+	tools: UpstreamToolsStatus | null;
+}
+
+function latestError(clients: PooledClientStatus[]) {
+	return clients
+		.map(c => c.lastError)
+		.filter(e => e !== undefined)
+		.sort((a, b) => b.at.localeCompare(a.at))[0];
+}
+
+function createBaseApp(runtime: ShimRuntime) {
 	const app = express();
 	app.disable('x-powered-by');
 	app.set('trust proxy', true);
-	app.use(cors());
+	app.use(cors({ exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate'] }));
 	app.use(express.json({ limit: '4mb' }));
 	app.use(express.urlencoded({ extended: false }));
 	app.get('/healthz', (_req, res) => res.status(200).json({ ok: true }));
+	if (runtime.metricsEnabled)
+		app.get('/metrics', async (_req, res) => {
+			res.setHeader('Content-Type', metricsRegistry.contentType);
+			res.send(await metricsRegistry.metrics());
+		});
+	const { adminToken } = runtime;
+	if (adminToken && !runtime.adminPort)
+		app.use('/admin', createAdminRouter({ ...runtime, adminToken }));
+	return app;
+}
+
+/** The admin API alone, for `ADMIN_PORT`; `/healthz` stays open so the port can be probed. */
+export function createAdminApp(runtime: ShimRuntime & { adminToken: string }) {
+	const app = express();
+	app.disable('x-powered-by');
+	app.set('trust proxy', true);
+	app.use(express.json({ limit: '1mb' }));
+	app.get('/healthz', (_req, res) => res.status(200).json({ ok: true }));
+	app.use('/admin', createAdminRouter(runtime));
+	return app;
+}
+
+/**
+ * `/readyz` fails during shutdown and while any product's upstream is unreachable or its tools
+ * failed validation; `/status` details every product; `/status/tools` holds the last tool
+ * validation.
+ */
+function serveStatus(
+	app: express.Express,
+	shims: Pick<MountedShim, 'cfg' | 'status'>[],
+	lifecycle: LifecycleManager,
+) {
+	const collect = () => {
+		const products: Record<string, ShimStatus> = {};
+		for (const s of shims) products[s.cfg.productKey] = s.status();
+		const ready = lifecycle.accepting && Object.values(products).every(p => p.ready);
+		return { ready, draining: !lifecycle.accepting, products };
+	};
+	app.get('/readyz', (_req, res) => {
+		const { ready, draining, products } = collect();
+		const reasons: Record<string, string> = draining ? { shutdown: 'draining' } : {};
+		for (const [key, p] of Object.entries(products)) if (p.reason) reasons[key] = p.reason;
+		res.status(ready ? 200 : 503).json(ready ? { ready } : { ready, reasons });
+	});
+	app.get('/status', (_req, res) => {
+		res.status(200).json({
+			version: VERSION,
+			uptimeSec: Math.round(process.uptime()),
+			...collect(),
+		});
+	});
+	app.get('/status/tools', (_req, res) => {
+		const { products } = collect();
+		const tools: Record<string, UpstreamToolsStatus | null> = {};
+		for (const [key, p] of Object.entries(products)) tools[key] = p.tools;
+		res.status(200).json({ ok: Object.values(tools).every(t => t?.ok), products: tools });
+	});
+}
+
+function logShimEndpoints(cfg: ProductShimConfig, port: number, mountPath: string) {
+	log({
+		evt: 'shim_http',
+		msg: 'http_ready',
+		shim: cfg.productKey,
+		url: `http://localhost:${port}${mountPath}/mcp`,
+		version: VERSION,
+	});
+	log({
+		evt: 'shim_sse',
+		msg: 'sse_ready',
+		shim: cfg.productKey,
+		url: `http://localhost:${port}${mountPath}/sse`,
+		version: VERSION,
+	});
+}
+
+export function createShimRouter({
+	cfg,
+	upstreamUrls,
+	staticPrefix,
+	runtime,
+}: CreateShimRouterOptions) {
+	const { auth, upstreamPool, cache, audit, rateLimiter, upstreamLimiter, accessPolicy } =
+		runtime;
+	if (accessPolicy?.covers(cfg.productKey) && !cfg.accessDelegate)
+		throw new Error(
+			`${cfg.productKey}: access policies are only supported for jira/confluence presets`,
+		);
+	const accessScope = (principal?: string) => accessPolicy?.scopeFor(cfg.productKey, principal);
+	const redactor = createRedactor(runtime.redactDetectors, cfg.redaction);
+	const fetchMaxTokens = cfg.fetchMaxTokens ?? runtime.fetchMaxTokens;
+	const router = express.Router();
+	const shimAuth = auth ? createShimAuth(auth, staticPrefix) : undefined;
+	const guard = shimAuth ? [shimAuth.authenticate] : [];
+	// Rate limits apply after authentication so buckets can be kept per principal.
+	if (rateLimiter)
+		guard.push(
+			createRateLimitMiddleware(rateLimiter, cfg.productKey, (sid, req) => {
+				const session = sessions[sid];
+				return Boolean(session && ownsSession(session, req));
+			}),
+		);
+	if (shimAuth) {
+		router.get('/.well-known/oauth-protected-resource', shimAuth.protectedResourceMetadata);
+		// RFC 9728 location; with a router at the root (one product per port) it is ours to serve.
+		if (staticPrefix)
+			router.get(
+				protectedResourceMetadataPath(staticPrefix),
+				shimAuth.protectedResourceMetadata,
+			);
+	}
 
-	const sessions: Record<string, SSEServerTransport> = {};
-	let idleTimer: NodeJS.Timeout | null = null;
-	const idleMs = Number(120_000);
+	router.use(['/mcp', '/sse', '/messages'], traceMcpRequests(cfg.productKey));
 
-	function cancelIdleTimer() {
-		if (idleTimer) {
-			clearTimeout(idleTimer);
-			idleTimer = null;
+	const sessions: Record<string, ShimSession> = {};
+	const pool = new UpstreamPool({
+		urls: upstreamUrls,
+		label: cfg.productKey,
+		idleMs: upstreamPool.idleMs,
+		maxClients: upstreamPool.maxClients,
+		replicaCooldownMs: upstreamPool.replicaCooldownMs,
+		limiter: upstreamLimiter,
+		aliases: mergeAliases(runtime.upstreamAliases, cfg.upstreamAliases),
+		onTools: catalog => {
+			toolsStatus = catalog.check(cfg);
+			logToolsStatus(cfg.productKey, toolsStatus);
+		},
+	});
+	let toolsStatus: UpstreamToolsStatus | undefined;
+	const descriptions = new ToolDescriptions(
+		cfg,
+		descriptionTemplates(cfg, runtime.descriptions),
+		runtime.descriptions,
+	);
+	// Validate the upstream tools and read site facts at startup through the shared client. With
+	// credential passthrough the first session's client reports the tools, and no facts are read
+	// since they would come from one user's credential.
+	const warmUp = async () => {
+		const lease = await pool.acquire();
+		try {
+			await descriptions.refresh(lease.upstream);
+		} finally {
+			lease.release();
+		}
+	};
+	let factsTimer: NodeJS.Timeout | undefined;
+	if (upstreamPool.passthrough === 'off') {
+		void warmUp().catch(() => undefined);
+		const { refreshMs } = runtime.descriptions;
+		if (descriptions.templated && refreshMs > 0) {
+			factsTimer = setInterval(() => void warmUp().catch(() => undefined), refreshMs);
+			factsTimer.unref();
 		}
 	}
 
-	async function scheduleIdleClose() {
-		if (idleTimer || Object.keys(sessions).length) return;
-		idleTimer = setTimeout(async () => {
-			idleTimer = null;
-			if (Object.keys(sessions).length) return;
-			await closeUpstream();
+	// Clients often abandon streamable sessions without a DELETE; close them once idle so their
+	// upstream leases are released. SSE sessions end with their stream instead.
+	let idleSweep: NodeJS.Timeout | undefined;
+	if (runtime.sessionIdleMs > 0) {
+		idleSweep = setInterval(closeIdleSessions, Math.min(runtime.sessionIdleMs, 60_000));
+		idleSweep.unref();
+	}
+
+	function closeIdleSessions() {
+		const now = Date.now();
+		for (const [id, session] of Object.entries(sessions)) {
+			if (!(session.transport instanceof StreamableHTTPServerTransport)) continue;
+			if (now - session.lastActivity < runtime.sessionIdleMs) continue;
 			log({
-				evt: 'upstream_idle_close',
+				evt: 'session_idle_close',
 				msg: 'idle_close',
 				shim: cfg.productKey,
-				durationMs: idleMs,
+				sessionId: id,
+				durationMs: now - session.lastActivity,
 			});
-		}, idleMs).unref?.();
+			void closeSession(id).catch(() => undefined);
+		}
 	}
 
 	function openSession(req: Request, res: Response) {
-		cancelIdleTimer();
 		const resolved = resolveDynamicPrefix(req, { staticPrefix });
 		const dynamicPrefix = normalizePrefix(resolved.prefix);
 		const endpoint = `${dynamicPrefix}/messages`;
 		const transport = new SSEServerTransport(endpoint, res);
-		sessions[transport.sessionId] = transport;
 		const ip = getClientIp(req);
+		const principal = principalOf(req.auth);
+		const now = Date.now();
+		sessions[transport.sessionId] = {
+			transport,
+			ip,
+			principal,
+			prefix: dynamicPrefix,
+			openedAt: now,
+			lastActivity: now,
+			callCount: 0,
+		};
+		metrics.activeSessions.inc({ product: cfg.productKey, transport: 'sse' });
 		log({
 			evt: 'session_open',
 			msg: 'open',
 			shim: cfg.productKey,
 			sessionId: transport.sessionId,
 			ip,
+			principal,
 			prefix: dynamicPrefix,
 			prefixReason: resolved.reason,
 			version: VERSION,
@@ -84,77 +306,175 @@ export function createHttpServer({
 		return handle;
 	}
 
-	function onSessionClose(sessionId: string, ip: string, keepAlive: { stop: () => void }) {
-		keepAlive.stop();
+	function onSessionClose(sessionId: string, ip: string, keepAlive?: { stop: () => void }) {
+		keepAlive?.stop();
+		const session = sessions[sessionId];
+		if (!session) return;
 		delete sessions[sessionId];
+		session.releaseUpstream?.();
+		metrics.activeSessions.dec({
+			product: cfg.productKey,
+			transport: session.transport instanceof SSEServerTransport ? 'sse' : 'http',
+		});
 		log({ evt: 'session_close', msg: 'close', shim: cfg.productKey, sessionId, ip });
-		scheduleIdleClose();
 	}
 
-	let upstreamClient: UpstreamCallable | null = null;
-	let upstreamPromise: Promise<UpstreamCallable> | null = null;
-
-	async function ensureUpstream(): Promise<UpstreamCallable> {
-		if (upstreamClient) return upstreamClient;
-		if (upstreamPromise) return upstreamPromise;
-		upstreamPromise = (async () => {
-			const u = await createUpstreamClient(upstreamUrl, { label: cfg.productKey }); // just to ensure upstream is alive, not used directly here
-			upstreamClient = u;
-			return u;
-		})();
-		try {
-			return await upstreamPromise;
-		} finally {
-			upstreamPromise = null;
-		}
+	async function acquireUpstream(req: Request) {
+		return pool.acquire(resolveUpstreamCredential(req, upstreamPool));
 	}
 
 	async function closeUpstream() {
-		try {
-			await (upstreamClient as { close?: () => Promise<void> })?.close?.();
-		} catch {
-			void 0;
-		} finally {
-			upstreamClient = null;
+		clearInterval(factsTimer);
+		clearInterval(idleSweep);
+		await pool.closeAll();
+	}
+
+	function recordToolCall(record: ToolCallRecord) {
+		const session = record.session ? sessions[record.session] : undefined;
+		if (session) {
+			session.callCount++;
+			session.lastActivity = Date.now();
 		}
+		runtime.recentCalls.add(record);
+	}
+
+	function rejectMissingCredential(req: Request, res: Response) {
+		if (!upstreamPool.requireCredential || resolveUpstreamCredential(req, upstreamPool))
+			return false;
+		res.status(401).json({ error: 'upstream credential required' });
+		return true;
 	}
 
 	async function handleSSE(req: Request, res: Response) {
 		const { transport, ip } = openSession(req, res);
 		const keepAlive = attachKeepAlive(res);
 		res.on('close', () => onSessionClose(transport.sessionId, ip, keepAlive));
-		const upstream = await ensureUpstream();
-		const server = buildMcpServer({ cfg, upstream });
+		const { upstream, release, key } = await acquireUpstream(req);
+		const session = sessions[transport.sessionId];
+		if (!session) {
+			release();
+			return;
+		}
+		session.releaseUpstream = release;
+		const server = buildMcpServer({
+			cfg,
+			upstream,
+			cache: cache ? { store: cache, scope: key } : undefined,
+			audit,
+			client: { ip, principal: session.principal },
+			access: accessScope(session.principal),
+			redactor,
+			fetchMaxTokens,
+			calls: runtime.lifecycle.calls,
+			onToolCall: recordToolCall,
+			descriptions: descriptions.forScope(accessScope(session.principal)),
+			siteFacts: descriptions.factsFor(accessScope(session.principal)),
+		});
 		await server.connect(transport);
 	}
 
+	function sendJsonRpcError(res: Response, status: number, code: number, message: string) {
+		res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+	}
+
+	/** While draining, existing sessions may finish running calls but not start new ones. */
+	function refuseNewCallWhileDraining(req: Request, res: Response) {
+		if (runtime.lifecycle.accepting) return false;
+		const messages: { method?: string }[] = Array.isArray(req.body) ? req.body : [req.body];
+		if (!messages.some(m => m?.method === 'tools/call')) return false;
+		sendJsonRpcError(res, 503, -32000, 'Server is shutting down');
+		return true;
+	}
+
+	// A session may only be driven by the principal that opened it.
+	function ownsSession(session: ShimSession, req: Request) {
+		return !session.principal || session.principal === principalOf(req.auth);
+	}
+
 	async function handleStreamableHTTP(req: Request, res: Response) {
-		await ensureUpstream();
+		const sid = (req.headers['mcp-session-id'] || '').toString();
+		if (sid) {
+			const existing = sessions[sid];
+			if (!(existing?.transport instanceof StreamableHTTPServerTransport)) {
+				sendJsonRpcError(res, 404, -32001, 'Session not found');
+				return;
+			}
+			if (!ownsSession(existing, req)) {
+				sendJsonRpcError(res, 403, -32001, 'Session belongs to another principal');
+				return;
+			}
+			if (refuseNewCallWhileDraining(req, res)) return;
+			existing.lastActivity = Date.now();
+			await existing.transport.handleRequest(req, res, req.body);
+			return;
+		}
 		if (req.method === 'GET') {
 			res.status(200).json({ ok: true, transport: 'http', version: VERSION });
 			return;
 		}
-		const http = await import('http');
-		const https = await import('https');
-		const url = new URL(upstreamUrl);
-		const mod = url.protocol === 'https:' ? https : http;
-		const proxyReq = mod.request(
-			{
-				method: req.method,
-				hostname: url.hostname,
-				port: url.port,
-				path: url.pathname,
-				headers: req.headers,
-			},
-			proxyRes => {
-				res.writeHead(proxyRes.statusCode || 502, proxyRes.headers);
-				proxyRes.pipe(res);
+		if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+			sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+			return;
+		}
+		const ip = getClientIp(req);
+		const principal = principalOf(req.auth);
+		const prefix = normalizePrefix(resolveDynamicPrefix(req, { staticPrefix }).prefix);
+		const { upstream, release, key } = await acquireUpstream(req);
+		const transport = new StreamableHTTPServerTransport({
+			sessionIdGenerator: () => randomUUID(),
+			onsessioninitialized: sessionId => {
+				const now = Date.now();
+				sessions[sessionId] = {
+					transport,
+					ip,
+					principal,
+					prefix,
+					openedAt: now,
+					lastActivity: now,
+					callCount: 0,
+					releaseUpstream: release,
+				};
+				metrics.activeSessions.inc({ product: cfg.productKey, transport: 'http' });
+				log({
+					evt: 'session_open',
+					msg: 'open',
+					shim: cfg.productKey,
+					sessionId,
+					ip,
+					principal,
+					transport: 'http',
+					version: VERSION,
+				});
 			},
-		);
-		proxyReq.on('error', err => {
-			res.status(502).json({ error: 'Upstream error', detail: err.message });
 		});
-		req.pipe(proxyReq);
+		transport.onclose = () => {
+			if (transport.sessionId) onSessionClose(transport.sessionId, ip);
+		};
+		try {
+			const server = buildMcpServer({
+				cfg,
+				upstream,
+				cache: cache ? { store: cache, scope: key } : undefined,
+				audit,
+				client: { ip, principal },
+				access: accessScope(principal),
+				redactor,
+				fetchMaxTokens,
+				calls: runtime.lifecycle.calls,
+				onToolCall: recordToolCall,
+				descriptions: descriptions.forScope(accessScope(principal)),
+				siteFacts: descriptions.factsFor(accessScope(principal)),
+			});
+			await server.connect(transport);
+			await transport.handleRequest(req, res, req.body);
+		} catch (e) {
+			// Setup failed: drop the lease and any half-open session rather than leak them.
+			release();
+			await transport.close().catch(() => undefined);
+			throw e;
+		}
+		// Initialization failed before a session was issued: nothing else will release the lease.
+		if (!transport.sessionId) release();
 	}
 
 	const resolveSession = (req: Request) => {
@@ -162,13 +482,21 @@ export function createHttpServer({
 		return String(sid || '');
 	};
 
-	app.all(['/mcp', '/sse'], async (req: Request, res: Response) => {
+	router.all(['/mcp', '/sse'], ...guard, async (req: Request, res: Response) => {
 		const accept = req.headers.accept || '';
 		const transportType = (req.query.transport || '').toString().toLowerCase();
 		const isSse =
 			req.path.endsWith('/sse') ||
 			transportType === 'sse' ||
-			(req.method === 'GET' && accept.includes('text/event-stream'));
+			(req.method === 'GET' &&
+				accept.includes('text/event-stream') &&
+				!req.headers['mcp-session-id']);
+		if (rejectMissingCredential(req, res)) return;
+		// Shutting down: existing sessions finish their calls, new ones go to another replica.
+		if (!runtime.lifecycle.accepting && (isSse || !req.headers['mcp-session-id'])) {
+			sendJsonRpcError(res, 503, -32000, 'Server is shutting down');
+			return;
+		}
 		if (isSse) {
 			res.setHeader('Content-Type', 'text/event-stream');
 			await handleSSE(req, res);
@@ -177,10 +505,16 @@ export function createHttpServer({
 		}
 	});
 
-	app.post('/messages', async (req: Request, res: Response) => {
+	router.post('/messages', ...guard, async (req: Request, res: Response) => {
 		const sid = resolveSession(req);
-		const t = sessions[sid];
-		if (!t) return res.status(400).send('No transport found for sessionId');
+		const session = sessions[sid];
+		const t = session?.transport;
+		if (!(t instanceof SSEServerTransport))
+			return res.status(400).send('No transport found for sessionId');
+		if (!ownsSession(session, req))
+			return res.status(403).send('Session belongs to another principal');
+		if (refuseNewCallWhileDraining(req, res)) return;
+		session.lastActivity = Date.now();
 		try {
 			await t.handlePostMessage(req, res, req.body);
 		} catch (e) {
@@ -196,6 +530,85 @@ export function createHttpServer({
 		}
 	});
 
+	/** Ready with a connected upstream client, or with none open since the next session connects. */
+	function readiness(clients = pool.status()): ShimReadiness {
+		if (toolsStatus && !toolsStatus.ok)
+			return { ready: false, reason: 'upstream tools failed validation' };
+		if (!clients.length || clients.some(c => c.state === 'connected')) return { ready: true };
+		const err = latestError(clients);
+		return {
+			ready: false,
+			reason: `upstream ${clients[0].state}${err ? `: ${err.message}` : ''}`,
+		};
+	}
+
+	function status(): ShimStatus {
+		const clients = pool.status();
+		const connected = clients.some(c => c.state === 'connected');
+		return {
+			...readiness(clients),
+			sessions: Object.keys(sessions).length,
+			upstream: connected ? 'connected' : (clients[0]?.state ?? 'idle'),
+			clients,
+			lastError: latestError(clients),
+			tools: toolsStatus ?? null,
+		};
+	}
+
+	function listSessions(): SessionSummary[] {
+		return Object.entries(sessions).map(([id, s]) => ({
+			id,
+			product: cfg.productKey,
+			transport: s.transport instanceof SSEServerTransport ? 'sse' : 'http',
+			ip: s.ip,
+			principal: s.principal,
+			prefix: s.prefix,
+			openedAt: new Date(s.openedAt).toISOString(),
+			lastActivity: new Date(s.lastActivity).toISOString(),
+			callCount: s.callCount,
+		}));
+	}
+
+	async function closeSession(id: string) {
+		const session = sessions[id];
+		if (!session) return false;
+		await session.transport.close();
+		// SSE transports close through their response; make sure the lease is released either way.
+		onSessionClose(id, session.ip);
+		return true;
+	}
+
+	runtime.shims.set(cfg.productKey, {
+		product: cfg.productKey,
+		sessions: listSessions,
+		closeSession,
+		reconnectUpstream: () => pool.reconnectAll('admin'),
+	});
+
+	return { router, sessions, closeUpstream, status, shimAuth };
+}
+
+export type ShimRouter = ReturnType<typeof createShimRouter>;
+type MountedShim = ShimRouter & { cfg: ProductShimConfig };
+
+export function createHttpServer({
+	opts,
+	cfg,
+	upstreamUrls,
+	staticPrefix,
+	initTs,
+	runtime,
+}: CreateHttpServerOptions) {
+	const app = createBaseApp(runtime);
+	const { router, sessions, closeUpstream, status } = createShimRouter({
+		cfg,
+		upstreamUrls,
+		staticPrefix,
+		runtime,
+	});
+	app.use(router);
+	serveStatus(app, [{ cfg, status }], runtime.lifecycle);
+
 	const server = app.listen(opts.port, () => {
 		const listenLog = {
 			evt: 'shim_listen',
@@ -206,21 +619,48 @@ export function createHttpServer({
 			version: VERSION,
 		} as const;
 		log(listenLog);
-		log({
-			evt: 'shim_http',
-			msg: 'http_ready',
-			shim: cfg.productKey,
-			url: `http://localhost:${opts.port}/mcp`,
-			version: VERSION,
+		logShimEndpoints(cfg, opts.port, '');
+	});
+
+	return { app, server, sessions, closeUpstream };
+}
+
+export function createSinglePortServer({
+	port,
+	shims,
+	initTs,
+	runtime,
+}: CreateSinglePortServerOptions) {
+	const app = createBaseApp(runtime);
+	const mounted = shims.map(({ cfg, upstreamUrls, mountPath }) => {
+		const shim = createShimRouter({
+			cfg,
+			upstreamUrls,
+			staticPrefix: '',
+			runtime,
 		});
+		app.use(mountPath, shim.router);
+		if (shim.shimAuth)
+			app.get(
+				protectedResourceMetadataPath(mountPath),
+				shim.shimAuth.protectedResourceMetadataAt(mountPath),
+			);
+		return { ...shim, cfg, mountPath };
+	});
+
+	const server = app.listen(port, () => {
 		log({
-			evt: 'shim_sse',
-			msg: 'sse_ready',
-			shim: cfg.productKey,
-			url: `http://localhost:${opts.port}/sse`,
+			evt: 'shim_listen',
+			msg: 'listen',
+			port,
+			durationMs: Date.now() - initTs,
 			version: VERSION,
+			products: shims.map(s => s.cfg.productKey),
 		});
+		for (const s of shims) logShimEndpoints(s.cfg, port, s.mountPath);
 	});
 
-	return { app, server, sessions, closeUpstream };
+	serveStatus(app, mounted, runtime.lifecycle);
+
+	return { app, server, shims: mounted };
 }
@@ -1,2 +1,7 @@
 export * from './jiraServer.js';
 export * from './confluenceServer.js';
+export * from './productRegistry.js';
+export * from './shimFactory.js';
+export * from './credentials.js';
+export * from './runtime.js';
+export * from './upstreamReplicas.js';
@@ -0,0 +1,285 @@
+import { JsonObject, JsonValue } from '../types/json.js';
+import { adfToMarkdown, isAdfDocument } from '../utils/adfToMarkdown.js';
+import { looksLikeWikiMarkup, wikiToMarkdown } from '../utils/wikiToMarkdown.js';
+
+export const JIRA_FETCH_SECTIONS = [
+	'header',
+	'description',
+	'links',
+	'subtasks',
+	'attachments',
+	'comments',
+] as const;
+
+export type JiraFetchSection = (typeof JIRA_FETCH_SECTIONS)[number];
+
+/** Upper bound mcp-atlassian accepts for `comment_limit`; older comments are never fetched. */
+export const JIRA_MAX_COMMENTS = 100;
+
+export interface JiraRenderOptions {
+	sections: JiraFetchSection[];
+	/** Newest comments kept when a thread is longer, at most 100; 0 keeps all that are fetched. */
+	maxComments: number;
+}
+
+export const DEFAULT_JIRA_RENDER_OPTIONS: JiraRenderOptions = {
+	sections: [...JIRA_FETCH_SECTIONS],
+	maxComments: 0,
+};
+
+export function parseJiraSections(list: string): JiraFetchSection[] {
+	const sections = list
+		.split(',')
+		.map(s => s.trim().toLowerCase())
+		.filter(Boolean);
+	const unknown = sections.filter(s => !(JIRA_FETCH_SECTIONS as readonly string[]).includes(s));
+	if (unknown.length)
+		throw new Error(
+			`unknown Jira fetch section(s): ${unknown.join(', ')} (known: ${JIRA_FETCH_SECTIONS.join(', ')})`,
+		);
+	return sections as JiraFetchSection[];
+}
+
+export function readJiraRenderOptions(env: NodeJS.ProcessEnv = process.env): JiraRenderOptions {
+	const maxComments = Number(env.JIRA_FETCH_MAX_COMMENTS || 0);
+	if (maxComments > JIRA_MAX_COMMENTS)
+		throw new Error(`JIRA_FETCH_MAX_COMMENTS must be at most ${JIRA_MAX_COMMENTS}`);
+	return {
+		sections: env.JIRA_FETCH_SECTIONS
+			? parseJiraSections(env.JIRA_FETCH_SECTIONS)
+			: DEFAULT_JIRA_RENDER_OPTIONS.sections,
+		maxComments,
+	};
+}
+
+const rec = (v: JsonValue | undefined): Record<string, JsonValue> =>
+	v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, JsonValue>) : {};
+const arr = (v: JsonValue | undefined): JsonValue[] => (Array.isArray(v) ? v : []);
+
+/** Reads a field from the simplified upstream shape first, then from raw Jira `fields`. */
+function field(doc: Record<string, JsonValue>, ...names: string[]): JsonValue | undefined {
+	const fields = rec(doc['fields']);
+	for (const n of names) {
+		const v = doc[n] ?? fields[n];
+		if (v !== undefined && v !== null && v !== '') return v;
+	}
+	return undefined;
+}
+
+function nameOf(v: JsonValue | undefined): string {
+	if (v === undefined || v === null) return '';
+	if (typeof v !== 'object') return String(v);
+	if (Array.isArray(v)) return v.map(nameOf).filter(Boolean).join(', ');
+	const r = v as Record<string, JsonValue>;
+	const n = r['display_name'] ?? r['displayName'] ?? r['name'] ?? r['value'] ?? r['key'];
+	return n === undefined || n === null ? '' : String(n);
+}
+
+const names = (v: JsonValue | undefined): string[] => arr(v).map(nameOf).filter(Boolean);
+
+/** Sprint names from a `sprint(s)` field or a greenhopper custom field. */
+function sprintNames(doc: Record<string, JsonValue>): string[] {
+	const direct = field(doc, 'sprint', 'sprints');
+	if (direct !== undefined) return Array.isArray(direct) ? names(direct) : [nameOf(direct)];
+	const candidates = { ...rec(doc['fields']), ...doc };
+	for (const [k, v] of Object.entries(candidates)) {
+		if (!k.startsWith('customfield_') || !Array.isArray(v) || !v.length) continue;
+		const first = v[0];
+		if (typeof first === 'string' && first.includes('greenhopper.service.sprint.Sprint'))
+			return v.map(s => /name=([^,\]]+)/.exec(String(s))?.[1] ?? '').filter(Boolean);
+		const r = rec(first);
+		if ('boardId' in r && 'state' in r && 'name' in r) return names(v);
+	}
+	return [];
+}
+
+function issueRef(v: JsonValue | undefined): string {
+	const r = rec(v);
+	const fields = rec(r['fields']);
+	const key = String(r['key'] ?? r['id'] ?? '');
+	const summary = String(r['summary'] ?? fields['summary'] ?? '');
+	const status = nameOf(r['status'] ?? fields['status']);
+	return [key, summary, status ? `(${status})` : ''].filter(Boolean).join(' ');
+}
+
+function formatBytes(n: JsonValue | undefined): string {
+	const size = Number(n);
+	if (!Number.isFinite(size) || size <= 0) return '';
+	if (size < 1024) return `${size} B`;
+	if (size < 1024 * 1024) return `${Math.round(size / 1024)} KB`;
+	return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** Jira rich text: ADF (Cloud), wiki markup (Server/DC) or Markdown already converted upstream. */
+export function jiraTextToMarkdown(value: JsonValue | undefined): string {
+	if (isAdfDocument(value)) return adfToMarkdown(value as JsonValue);
+	if (typeof value !== 'string') return '';
+	return looksLikeWikiMarkup(value) ? wikiToMarkdown(value) : value;
+}
+
+function headerSection(doc: Record<string, JsonValue>): string {
+	const parent = field(doc, 'parent');
+	const rows: [string, string][] = [
+		['Type', nameOf(field(doc, 'issue_type', 'issuetype'))],
+		['Status', nameOf(field(doc, 'status'))],
+		['Priority', nameOf(field(doc, 'priority'))],
+		['Assignee', nameOf(field(doc, 'assignee')) || 'Unassigned'],
+		['Reporter', nameOf(field(doc, 'reporter'))],
+		['Labels', names(field(doc, 'labels')).join(', ')],
+		['Components', names(field(doc, 'components')).join(', ')],
+		['Fix versions', names(field(doc, 'fix_versions', 'fixVersions')).join(', ')],
+		['Sprint', sprintNames(doc).join(', ')],
+		['Parent', parent ? issueRef(parent) : ''],
+		['Epic', nameOf(field(doc, 'epic_key', 'epic_link', 'epic')) || ''],
+		['Created', nameOf(field(doc, 'created'))],
+		['Updated', nameOf(field(doc, 'updated'))],
+		['Resolution', nameOf(field(doc, 'resolution'))],
+		['Due', nameOf(field(doc, 'duedate', 'due_date'))],
+	];
+	return rows
+		.filter(([, v]) => v)
+		.map(([k, v]) => `- **${k}:** ${v}`)
+		.join('\n');
+}
+
+function linksSection(doc: Record<string, JsonValue>): string {
+	const lines: string[] = [];
+	for (const l of arr(field(doc, 'issuelinks', 'issue_links'))) {
+		const link = rec(l);
+		const type = rec(link['type']);
+		const outward = link['outward_issue'] ?? link['outwardIssue'];
+		const inward = link['inward_issue'] ?? link['inwardIssue'];
+		if (outward)
+			lines.push(`- ${nameOf(type['outward']) || nameOf(type)} ${issueRef(outward)}`);
+		if (inward) lines.push(`- ${nameOf(type['inward']) || nameOf(type)} ${issueRef(inward)}`);
+	}
+	return lines.join('\n');
+}
+
+function subtasksSection(doc: Record<string, JsonValue>): string {
+	return arr(field(doc, 'subtasks'))
+		.map(t => `- ${issueRef(t)}`)
+		.join('\n');
+}
+
+function attachmentsSection(doc: Record<string, JsonValue>): string {
+	return arr(field(doc, 'attachments', 'attachment'))
+		.map(a => {
+			const r = rec(a);
+			const mime = String(r['content_type'] ?? r['mimeType'] ?? '');
+			const info = [mime, formatBytes(r['size'])].filter(Boolean).join(', ');
+			const url = String(r['url'] ?? r['content'] ?? '');
+			const name = String(r['filename'] ?? r['name'] ?? 'attachment');
+			return `- ${name}${info ? ` (${info})` : ''}${url ? ` — ${url}` : ''}`;
+		})
+		.join('\n');
+}
+
+export function jiraComments(doc: Record<string, JsonValue>): JsonValue[] {
+	const direct = doc['comments'];
+	if (Array.isArray(direct)) return direct;
+	return arr(rec(field(doc, 'comment'))['comments']);
+}
+
+/**
+ * Comments on the issue, which may be more than were fetched. Undefined when the upstream cut the
+ * thread at its limit without reporting a total.
+ */
+function commentTotal(doc: Record<string, JsonValue>, fetched: number): number | undefined {
+	const total = Number(rec(field(doc, 'comment'))['total'] ?? doc['comment_count']);
+	if (Number.isFinite(total) && total >= fetched) return total;
+	return fetched >= JIRA_MAX_COMMENTS ? undefined : fetched;
+}
+
+function commentsSection(
+	comments: JsonValue[],
+	total: number | undefined,
+	maxComments: number,
+): string {
+	const kept = maxComments > 0 ? comments.slice(-maxComments) : comments;
+	const blocks = kept.map(c => {
+		const r = rec(c);
+		const author = nameOf(r['author']) || 'user';
+		const created = nameOf(r['created']);
+		const updated = nameOf(r['updated']);
+		const stamp = [created, updated && updated !== created ? `edited ${updated}` : '']
+			.filter(Boolean)
+			.join(', ');
+		return `### ${author}${stamp ? ` — ${stamp}` : ''}\n\n${jiraTextToMarkdown(r['body']).trim()}`;
+	});
+	if (total === undefined || kept.length < total)
+		blocks.unshift(
+			`_${kept.length} of ${total ?? `${comments.length}+`} comments shown; older comments omitted._`,
+		);
+	return blocks.join('\n\n');
+}
+
+/** Renders a Jira issue as a Markdown document made of the configured sections. */
+export function renderJiraIssue(
+	doc: Record<string, JsonValue>,
+	heading: string,
+	options: JiraRenderOptions,
+): string {
+	const comments = jiraComments(doc);
+	const total = commentTotal(doc, comments.length);
+	const parts: string[] = [`# ${heading}`];
+	for (const section of options.sections) {
+		switch (section) {
+			case 'header': {
+				const body = headerSection(doc);
+				if (body) parts.push(body);
+				break;
+			}
+			case 'description': {
+				const body = jiraTextToMarkdown(field(doc, 'description')).trim();
+				parts.push(`## Description\n\n${body || '_No description._'}`);
+				break;
+			}
+			case 'links': {
+				const body = linksSection(doc);
+				if (body) parts.push(`## Linked issues\n\n${body}`);
+				break;
+			}
+			case 'subtasks': {
+				const body = subtasksSection(doc);
+				if (body) parts.push(`## Subtasks\n\n${body}`);
+				break;
+			}
+			case 'attachments': {
+				const body = attachmentsSection(doc);
+				if (body) parts.push(`## Attachments\n\n${body}`);
+				break;
+			}
+			case 'comments': {
+				if (comments.length)
+					parts.push(
+						`## Comments (${total ?? `${comments.length}+`})\n\n${commentsSection(comments, total, options.maxComments)}`,
+					);
+				break;
+			}
+		}
+	}
+	return parts.join('\n\n');
+}
+
+/** Compact metadata: promoted scalar facts only, never the raw upstream payload. */
+export function jiraIssueMetadata(doc: Record<string, JsonValue>): JsonObject {
+	const metadata: JsonObject = { source: 'jira' };
+	const scalar: [string, string][] = [
+		['issueType', nameOf(field(doc, 'issue_type', 'issuetype'))],
+		['status', nameOf(field(doc, 'status'))],
+		['priority', nameOf(field(doc, 'priority'))],
+		['assignee', nameOf(field(doc, 'assignee'))],
+		['reporter', nameOf(field(doc, 'reporter'))],
+		['created', nameOf(field(doc, 'created'))],
+		['updated', nameOf(field(doc, 'updated'))],
+		['parent', nameOf(rec(field(doc, 'parent'))['key'])],
+	];
+	for (const [k, v] of scalar) if (v) metadata[k] = v;
+	const labels = names(field(doc, 'labels'));
+	if (labels.length) metadata['labels'] = labels;
+	const comments = jiraComments(doc);
+	metadata['commentCount'] = commentTotal(doc, comments.length) ?? comments.length;
+	metadata['attachmentCount'] = arr(field(doc, 'attachments', 'attachment')).length;
+	return metadata;
+}
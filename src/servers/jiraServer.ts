@@ -1,11 +1,33 @@
 import { JsonObject, JsonValue } from '../types/json.js';
-import { FetchDelegate, SearchDelegate, ShimOptions } from '../types/shim.js';
-import { FetchedDocument, SearchResults } from '../types/tools.js';
+import {
+	AccessDelegate,
+	FactsDelegate,
+	FetchDelegate,
+	ProductShimConfig,
+	SearchDelegate,
+	ShimOptions,
+	SiteFacts,
+} from '../types/shim.js';
+import { FetchedDocument, SearchPage, SearchResults } from '../types/tools.js';
+import { andClause, buildJqlFromText, isValidJql } from '../utils/jql.js';
+import { accessClause } from './accessPolicy.js';
 import { JIRA_DEFAULT_FETCH_DESCRIPTION, JIRA_DEFAULT_SEARCH_DESCRIPTION } from './descriptions.js';
+import {
+	DEFAULT_JIRA_RENDER_OPTIONS,
+	JIRA_MAX_COMMENTS,
+	JiraRenderOptions,
+	jiraIssueMetadata,
+	renderJiraIssue,
+} from './jiraRender.js';
 import { startShimServer } from './shimFactory.js';
+import { rankByFrequency, rankFacts } from './toolDescriptions.js';
 
 const JIRA_SEARCH_TOOL = 'jira_search';
 const JIRA_FETCH_TOOL = 'jira_get_issue';
+const JIRA_PROJECTS_TOOL = 'jira_get_all_projects';
+/** Recently updated issues sampled for common components and issue types. */
+const JIRA_FACTS_SAMPLE = { jql: 'updated >= -90d ORDER BY updated DESC', limit: 50 };
+const ISSUE_KEY = /^([A-Z][A-Z0-9_]+)-\d+$/i;
 
 function toCanonicalIssueUrl(issueKey: string, rawUrl: string): string {
 	if (!issueKey) return rawUrl;
@@ -26,11 +48,6 @@ function getJiraIssueTitle(issue: JiraIssueLite): string {
 	}
 }
 
-function looksLikeJql(q: string): boolean {
-	const s = String(q || '').toLowerCase();
-	return /[=]|order by|project|status|assignee|labels|issue|parent|updated|created/.test(s);
-}
-
 const rec = (v: JsonValue): Record<string, JsonValue> =>
 	v && typeof v === 'object' && !Array.isArray(v) ? (v as Record<string, JsonValue>) : {};
 const arr = (v: JsonValue): JsonValue[] => (Array.isArray(v) ? (v as JsonValue[]) : []);
@@ -55,112 +72,185 @@ function toLite(issue: JsonValue): JiraIssueLite | undefined {
 	return { id: String(id), key: typeof key === 'string' ? key : String(id), summary, rawUrl };
 }
 
-const jiraSearchDelegate: SearchDelegate = {
-	prepareSearchArguments(query: string): JsonObject {
-		const jql = looksLikeJql(query)
-			? query
-			: `text ~ "${query.replace(/"/g, '\\"')}" ORDER BY updated DESC`;
-		return { jql, limit: 20 };
-	},
-	mapSearchResults(raw: JsonValue): SearchResults {
-		const c = rec(raw);
-		const issues = arr(
-			(c['issues'] as JsonValue) ?? (c['results'] as JsonValue) ?? (c['data'] as JsonValue),
+export function readJiraProjectKeys(env: NodeJS.ProcessEnv = process.env): string[] {
+	return (env.JIRA_PROJECT_KEYS || '')
+		.split(',')
+		.map(k => k.trim().toUpperCase())
+		.filter(Boolean);
+}
+
+function createJiraSearchDelegate(projectKeys: string[]): SearchDelegate {
+	return {
+		prepareSearchArguments(query: string, page: SearchPage, facts?: SiteFacts): JsonObject {
+			// Configured keys plus the projects the session may see spot project names in free text.
+			const known = new Set([
+				...projectKeys,
+				...(facts?.projectKeys ?? []).map(f => f.value),
+			]);
+			const jql = isValidJql(query) ? query : buildJqlFromText(query, { projectKeys: known });
+			return { jql, limit: page.limit, start_at: page.startAt };
+		},
+		mapSearchResults(raw: JsonValue, _page: SearchPage, args: JsonObject): SearchResults {
+			const c = rec(raw);
+			const issues = arr(
+				(c['issues'] as JsonValue) ??
+					(c['results'] as JsonValue) ??
+					(c['data'] as JsonValue),
+			);
+			const results = issues
+				.map(toLite)
+				.filter(Boolean)
+				.map(issue => {
+					const i = issue as JiraIssueLite;
+					const urlVal = toCanonicalIssueUrl(i.key, i.rawUrl || '');
+					return {
+						id: i.id,
+						title: getJiraIssueTitle(i),
+						url: String(urlVal),
+					};
+				});
+			const total = c['total'];
+			const query = String(args['jql'] ?? '');
+			return typeof total === 'number' && total >= 0
+				? { results, total, query }
+				: { results, query };
+		},
+	};
+}
+
+function createJiraFetchDelegate(render: JiraRenderOptions): FetchDelegate {
+	return {
+		prepareFetchArguments(id: string): JsonObject {
+			// The upstream default returns only a handful of fields and 10 comments.
+			return {
+				issue_key: id,
+				fields: '*all',
+				comment_limit: render.maxComments || JIRA_MAX_COMMENTS,
+			};
+		},
+		mapFetchResults(raw: JsonValue): FetchedDocument {
+			const doc = rec(raw);
+			const fields = rec(doc['fields']);
+			const key = (doc['key'] as string) || (doc['id'] as string) || 'unknown';
+			const issueKey =
+				typeof doc['key'] === 'string' && /-/.test(String(doc['key']))
+					? String(doc['key'])
+					: String(key);
+			const title = (fields['summary'] || doc['summary'] || `Issue ${issueKey}`) as string;
+			const rawUrl = (doc['url'] ?? doc['webUrl'] ?? doc['self'] ?? '') as string;
+			const url = toCanonicalIssueUrl(issueKey, rawUrl);
+			const heading = title.startsWith(issueKey) ? title : `${issueKey} ${title}`;
+			return {
+				id: String(issueKey),
+				title: String(title),
+				text: renderJiraIssue(doc, heading, render),
+				url: String(url),
+				metadata: jiraIssueMetadata(doc),
+			};
+		},
+	};
+}
+
+const projectOf = (issueKey: string) => ISSUE_KEY.exec(issueKey)?.[1].toUpperCase();
+
+/** Name of a `{ name }` / `{ key }` object or a plain string. */
+function nameOf(v: JsonValue): string {
+	if (typeof v === 'string') return v;
+	const r = rec(v);
+	return String(r['name'] ?? r['value'] ?? r['key'] ?? '');
+}
+
+// Accessible projects, plus components and issue types ranked by use in recently updated issues.
+const jiraFactsDelegate: FactsDelegate = {
+	examples: { projectKeys: 'PROJ', components: 'Backend' },
+	async collectFacts(call) {
+		const sample = rec(
+			await call(JIRA_SEARCH_TOOL, {
+				...JIRA_FACTS_SAMPLE,
+				fields: 'project,components,issuetype',
+			}),
+		);
+		const issues = arr(sample['issues'] ?? sample['results'] ?? sample['data']).map(i => {
+			const r = rec(i);
+			return { ...r, ...rec(r['fields']) };
+		});
+		// Every fact carries the projects it was seen in so access scopes can filter it.
+		const projectKeyOf = (i: Record<string, JsonValue>) =>
+			String(rec(i['project'])['key'] ?? projectOf(String(i['key'])) ?? '');
+		// Older upstreams lack the project list tool; the sample stands in for it.
+		const listed = await call(JIRA_PROJECTS_TOOL, {}).then(
+			raw => (Array.isArray(raw) ? raw : arr(rec(raw)['projects'])).map(rec),
+			() => [],
 		);
-		const results = issues
-			.map(toLite)
-			.filter(Boolean)
-			.map(issue => {
-				const i = issue as JiraIssueLite;
-				const urlVal = toCanonicalIssueUrl(i.key, i.rawUrl || '');
-				return {
-					id: i.id,
-					title: getJiraIssueTitle(i),
-					url: String(urlVal),
-				};
-			});
-		return { results };
+		const projects = listed.length ? listed : issues.map(i => rec(i['project']));
+		const names = new Map<string, string>();
+		for (const p of projects)
+			if (p['key'] && p['name']) names.set(String(p['key']), String(p['name']));
+		const keys = listed.length
+			? listed
+					.map(p => String(p['key'] ?? ''))
+					.filter(Boolean)
+					.sort()
+			: rankByFrequency(issues.map(projectKeyOf));
+		return {
+			projectKeys: keys.map(k => ({ value: k, containers: [k] })),
+			projects: keys.map(k => ({
+				value: names.get(k) ? `${k} (${names.get(k)})` : k,
+				containers: [k],
+			})),
+			components: rankFacts(
+				issues.flatMap(i =>
+					arr(i['components']).map(c => ({
+						value: nameOf(c),
+						container: projectKeyOf(i),
+					})),
+				),
+			),
+			issueTypes: rankFacts(
+				issues.map(i => ({
+					value: nameOf(i['issue_type'] ?? i['issuetype'] ?? null),
+					container: projectKeyOf(i),
+				})),
+			),
+		};
 	},
 };
 
-const jiraFetchDelegate: FetchDelegate = {
-	prepareFetchArguments(id: string): JsonObject {
+const jiraAccessDelegate: AccessDelegate = {
+	containerLabel: 'project',
+	constrainSearchArguments(args, scope) {
 		return {
-			issue_key: id,
+			...args,
+			jql: andClause(String(args['jql'] ?? ''), accessClause('project', scope)),
 		};
 	},
-	mapFetchResults(raw: JsonValue): FetchedDocument {
-		const doc = rec(raw);
-		const fields = rec(doc['fields']);
-		const key = (doc['key'] as string) || (doc['id'] as string) || 'unknown';
-		const issueKey =
-			typeof doc['key'] === 'string' && /-/.test(String(doc['key']))
-				? String(doc['key'])
-				: String(key);
-		const title = (fields['summary'] || doc['summary'] || `Issue ${issueKey}`) as string;
-		const rawUrl = (doc['url'] ?? doc['webUrl'] ?? doc['self'] ?? '') as string;
-		const url = toCanonicalIssueUrl(issueKey, rawUrl);
-
-		// Text assembly
-		const parts: string[] = [];
-		if (typeof doc['summary'] === 'string') parts.push(`Summary: ${doc['summary']}`);
-		if (typeof doc['description'] === 'string')
-			parts.push(`Description:\n${doc['description']}`);
-		const statusObj = rec(doc['status']);
-		const statusObjFields = rec(fields['status']);
-		const statusName = (statusObj['name'] || statusObjFields['name']) as string | undefined;
-		if (statusName) parts.push(`Status: ${statusName}`);
-		const commentsArr = arr(doc['comments']);
-		if (commentsArr.length) {
-			parts.push(`Comments (${commentsArr.length}):`);
-			for (const c of commentsArr.slice(0, 5)) {
-				const cRec = rec(c);
-				const author = rec(cRec['author']);
-				const body = typeof cRec['body'] === 'string' ? cRec['body'] : '';
-				parts.push(
-					`- ${(author['displayName'] as string) || author || 'user'}: ${body}`.trim(),
-				);
-			}
-		}
-		const text = parts.length ? parts.join('\n\n') : JSON.stringify(doc, null, 2);
-
-		// Metadata enrichment
-		const exclude = new Set<string>([
-			'id',
-			'key',
-			'summary',
-			'description',
-			'status',
-			'comments',
-			'url',
-			'webUrl',
-			'self',
-		]);
-		const metadata: JsonObject = { source: 'jira' };
-		for (const [k, v] of Object.entries(doc)) if (!exclude.has(k)) metadata[k] = v as JsonValue;
-		if (Object.keys(statusObj).length)
-			metadata['statusObject'] = statusObj as unknown as JsonValue;
-		if (commentsArr.length)
-			metadata['commentsExcerpt'] = commentsArr.slice(0, 5) as unknown as JsonValue;
-
-		return { id: String(issueKey), title: String(title), text, url: String(url), metadata };
-	},
+	containerOfResult: item => projectOf(item.id),
+	containerOfId: projectOf,
+	containerOfDocument: doc => projectOf(doc.id),
 };
 
+export function createJiraShimConfig(
+	render: JiraRenderOptions = DEFAULT_JIRA_RENDER_OPTIONS,
+	projectKeys: string[] = [],
+): ProductShimConfig {
+	return {
+		productKey: 'jira',
+		serverName: 'jira-shim',
+		upstreamSearchTool: JIRA_SEARCH_TOOL,
+		upstreamFetchTool: JIRA_FETCH_TOOL,
+		defaultSearchDescription: JIRA_DEFAULT_SEARCH_DESCRIPTION,
+		defaultFetchDescription: JIRA_DEFAULT_FETCH_DESCRIPTION,
+		searchDelegate: createJiraSearchDelegate(projectKeys),
+		fetchDelegate: createJiraFetchDelegate(render),
+		accessDelegate: jiraAccessDelegate,
+		factsDelegate: jiraFactsDelegate,
+	};
+}
+
+export const JIRA_SHIM_CONFIG: ProductShimConfig = createJiraShimConfig();
+
 export async function startJiraShim(opts: ShimOptions) {
-	return startShimServer(
-		{ ...opts, publicPrefix: '/jira' },
-		{
-			productKey: 'jira',
-			serverName: 'jira-shim',
-			upstreamSearchTool: JIRA_SEARCH_TOOL,
-			upstreamFetchTool: JIRA_FETCH_TOOL,
-			defaultSearchDescription: JIRA_DEFAULT_SEARCH_DESCRIPTION,
-			defaultFetchDescription: JIRA_DEFAULT_FETCH_DESCRIPTION,
-			searchDelegate: jiraSearchDelegate,
-			fetchDelegate: jiraFetchDelegate,
-		},
-	).catch(err => {
+	return startShimServer({ ...opts, publicPrefix: '/jira' }, JIRA_SHIM_CONFIG).catch(err => {
 		console.error('jira-shim failed:', err);
 		process.exit(1);
 	});
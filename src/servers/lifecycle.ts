@@ -0,0 +1,164 @@
+import { Server } from 'http';
+import { log } from '../log.js';
+
+/** Exit codes: clean drain, drain timed out or a close step failed, forced by a second signal. */
+export const EXIT_OK = 0;
+export const EXIT_DRAIN_INCOMPLETE = 1;
+const SIGNAL_EXIT: Record<string, number> = { SIGINT: 130, SIGTERM: 143 };
+
+export interface LifecycleOptions {
+	/** How long in-flight tool calls may run after a shutdown signal. */
+	drainTimeoutMs: number;
+}
+
+/** Sessions and upstream clients of one product, closed after the drain. */
+export interface DrainableShim {
+	product: string;
+	sessions: Record<string, { transport: { close: () => Promise<void> } }>;
+	closeUpstream: () => Promise<void>;
+}
+
+interface ManagedServer {
+	server: Server;
+	shims: DrainableShim[];
+}
+
+export function readLifecycleOptions(env: NodeJS.ProcessEnv = process.env): LifecycleOptions {
+	return { drainTimeoutMs: Number(env.SHUTDOWN_DRAIN_TIMEOUT_MS || 15_000) };
+}
+
+/** Counts running tool calls so shutdown can wait for them. */
+export class InFlightCalls {
+	private count = 0;
+	private waiters: (() => void)[] = [];
+
+	get size() {
+		return this.count;
+	}
+
+	async track<T>(fn: () => Promise<T>): Promise<T> {
+		this.count++;
+		try {
+			return await fn();
+		} finally {
+			// The SDK writes the reply after the handler resolves; count the call until then.
+			setImmediate(() => {
+				if (--this.count === 0) for (const wake of this.waiters.splice(0)) wake();
+			});
+		}
+	}
+
+	/** Resolves true once no call is running, or false after `timeoutMs`. */
+	idle(timeoutMs: number): Promise<boolean> {
+		if (this.count === 0) return Promise.resolve(true);
+		return new Promise(resolve => {
+			const timer = setTimeout(() => resolve(false), timeoutMs);
+			this.waiters.push(() => {
+				clearTimeout(timer);
+				resolve(true);
+			});
+		});
+	}
+}
+
+/**
+ * Owns every shim server of the process. On SIGINT/SIGTERM it stops accepting sessions (and
+ * fails readiness), waits for in-flight tool calls up to the drain timeout, closes sessions,
+ * upstream clients and servers in that order, runs shutdown hooks and exits.
+ */
+export class LifecycleManager {
+	readonly calls = new InFlightCalls();
+	private readonly servers: ManagedServer[] = [];
+	private readonly hooks: (() => Promise<void>)[] = [];
+	private draining = false;
+	private signalsInstalled = false;
+
+	constructor(private readonly opts: LifecycleOptions) {}
+
+	/** False once shutdown has started; new sessions are refused from then on. */
+	get accepting() {
+		return !this.draining;
+	}
+
+	register(server: Server, shims: DrainableShim[]) {
+		this.servers.push({ server, shims });
+	}
+
+	/** Runs after servers and upstream clients are closed, e.g. to flush traces. */
+	onShutdown(hook: () => Promise<void>) {
+		this.hooks.push(hook);
+	}
+
+	installSignalHandlers() {
+		if (this.signalsInstalled) return;
+		this.signalsInstalled = true;
+		for (const signal of Object.keys(SIGNAL_EXIT) as NodeJS.Signals[]) {
+			process.on(signal, () => {
+				if (!this.draining) {
+					void this.shutdown(signal).then(code => process.exit(code));
+					return;
+				}
+				log({ evt: 'shutdown_forced', msg: 'forced exit', lvl: 'warn', reason: signal });
+				process.exit(SIGNAL_EXIT[signal]);
+			});
+		}
+	}
+
+	/** Drains and closes everything; resolves with the exit code. */
+	async shutdown(reason: string): Promise<number> {
+		this.draining = true;
+		const startedAt = Date.now();
+		// Servers keep listening while draining so `/readyz` reports 503 and new sessions are refused.
+		log({ evt: 'shutdown_start', msg: 'draining', reason, count: this.calls.size });
+
+		const drained = await this.calls.idle(this.opts.drainTimeoutMs);
+		if (!drained)
+			log({
+				evt: 'shutdown_drain_timeout',
+				msg: 'tool calls still running',
+				lvl: 'warn',
+				count: this.calls.size,
+				durationMs: this.opts.drainTimeoutMs,
+			});
+
+		let failed = false;
+		const step = async (what: string, fn: () => Promise<void>) => {
+			try {
+				await fn();
+			} catch (e) {
+				failed = true;
+				log({
+					evt: 'shutdown_error',
+					msg: what,
+					lvl: 'error',
+					reason: e instanceof Error ? e.message : String(e),
+				});
+			}
+		};
+		const shims = this.servers.flatMap(s => s.shims);
+		// Transport close handlers remove the sessions and release their upstream leases.
+		for (const shim of shims)
+			await step(`close sessions of ${shim.product}`, async () => {
+				await Promise.allSettled(
+					Object.values(shim.sessions).map(s => s.transport.close()),
+				);
+			});
+		for (const shim of shims)
+			await step(`close upstream of ${shim.product}`, () => shim.closeUpstream());
+		for (const { server } of this.servers)
+			await step('close server', async () => {
+				server.close();
+				server.closeAllConnections();
+			});
+		for (const hook of this.hooks) await step('shutdown hook', hook);
+
+		const code = drained && !failed ? EXIT_OK : EXIT_DRAIN_INCOMPLETE;
+		log({
+			evt: 'shutdown_done',
+			msg: 'shutdown',
+			durationMs: Date.now() - startedAt,
+			reason: code === EXIT_OK ? 'clean' : 'incomplete',
+		});
+		return code;
+	}
+}
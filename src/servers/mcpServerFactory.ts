@@ -1,58 +1,409 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
 import { z } from 'zod';
 import { log } from '../log.js';
-import { JsonValue } from '../types/json.js';
-import { ProductShimConfig } from '../types/shim.js';
+import { metrics } from '../metrics.js';
+import { withSpan } from '../tracing.js';
+import { JsonObject, JsonValue } from '../types/json.js';
+import { AccessScope, ProductShimConfig, SiteFacts } from '../types/shim.js';
+import { FetchedDocument, SearchPage, SearchResultItem, SearchResults } from '../types/tools.js';
+import { cursorFromQuery, decodeCursor, encodeCursor } from '../utils/cursor.js';
 import { extractJsonFromContent } from '../utils/jsonExtract.js';
 import { VERSION } from '../version.js';
+import { isAllowed } from './accessPolicy.js';
+import { AuditLog } from './auditLog.js';
+import { documentPart, parseChunkId } from './fetchChunks.js';
+import { InFlightCalls } from './lifecycle.js';
+import { ToolCallRecord } from './recentCalls.js';
+import { DescriptionTemplates } from './toolDescriptions.js';
+import { UpstreamBusyError } from './rateLimit.js';
+import { RedactionCounts, Redactor } from './redaction.js';
+import { ResponseCache } from './responseCache.js';
 import { UpstreamCallable } from './upstreamClient.js';
 
+export interface McpServerCacheDeps {
+	store: ResponseCache;
+	/** Credential scope (upstream pool key) the cached entries belong to. */
+	scope: string;
+}
+
+/** Client the session belongs to, recorded in the audit log. */
+export interface McpServerClient {
+	ip: string;
+	principal?: string;
+}
+
 export interface McpServerBuildDeps {
 	cfg: ProductShimConfig;
 	upstream: UpstreamCallable;
+	cache?: McpServerCacheDeps;
+	audit?: AuditLog;
+	client?: McpServerClient;
+	/** Projects/spaces the session's principal may see. */
+	access?: AccessScope;
+	/** Applied to fetched documents and search titles before they are returned. */
+	redactor?: Redactor;
+	/** Token budget above which fetched documents are split into `ID#N` parts. */
+	fetchMaxTokens?: number;
+	/** Tracks running tool calls so shutdown can drain them. */
+	calls?: InFlightCalls;
+	/** Called after every tool call, e.g. for session activity and the admin call log. */
+	onToolCall?: (record: ToolCallRecord) => void;
+	/** Rendered tool descriptions; defaults to the config's templates as they are. */
+	descriptions?: DescriptionTemplates;
+	/** Site facts the session may see, e.g. project keys recognized in free-text queries. */
+	siteFacts?: SiteFacts;
 }
 
-export function buildMcpServer({ cfg, upstream }: McpServerBuildDeps) {
+/** What a tool handler handed to the client, filled in for the audit record. */
+interface AuditTrail {
+	documents: Pick<SearchResultItem, 'id' | 'url'>[];
+	query?: string;
+	redactions: RedactionCounts;
+}
+
+type ToolKind = 'search' | 'fetch';
+
+const SEARCH_PAGE_SIZE = 20;
+
+const isErrorResult = (raw: JsonValue) =>
+	Boolean(raw && typeof raw === 'object' && !Array.isArray(raw) && raw['isError'] === true);
+
+function errorText(raw: JsonValue): string {
+	const content = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw['content'] : null;
+	const first = Array.isArray(content) ? content[0] : null;
+	const text = first && typeof first === 'object' && !Array.isArray(first) ? first['text'] : null;
+	return typeof text === 'string' ? text.slice(0, 500) : 'upstream error';
+}
+
+/** An upstream tool returned an error result (as opposed to the call itself failing). */
+class UpstreamToolError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'UpstreamToolError';
+	}
+}
+
+export function buildMcpServer({
+	cfg,
+	upstream,
+	cache,
+	audit,
+	client,
+	access,
+	redactor,
+	fetchMaxTokens = 0,
+	calls,
+	onToolCall,
+	descriptions = { search: cfg.defaultSearchDescription, fetch: cfg.defaultFetchDescription },
+	siteFacts,
+}: McpServerBuildDeps) {
 	const mcp = new McpServer({ name: cfg.serverName, version: VERSION });
 
+	function ttlFor(kind: ToolKind): number {
+		if (!cache) return 0;
+		return kind === 'search'
+			? (cfg.cache?.searchTtlMs ?? cache.store.opts.searchTtlMs)
+			: (cfg.cache?.fetchTtlMs ?? cache.store.opts.fetchTtlMs);
+	}
+
+	/**
+	 * Calls the upstream tool through the response cache and maps the raw result. `idsOf` lists
+	 * the document ids of the mapped result so the entry can be purged by id.
+	 */
+	async function callUpstream<T>(
+		kind: ToolKind,
+		name: string,
+		args: JsonObject,
+		map: (raw: JsonValue) => T,
+		idsOf: (mapped: T) => string[],
+		throwOnError = false,
+	): Promise<T> {
+		const ttlMs = ttlFor(kind);
+		const key =
+			cache && ttlMs > 0
+				? ResponseCache.key(cache.scope, cfg.productKey, name, args)
+				: undefined;
+		const hit = key ? cache?.store.get(key) : undefined;
+		if (key)
+			metrics.cacheLookups.inc({
+				product: cfg.productKey,
+				tool: kind,
+				result: hit === undefined ? 'miss' : 'hit',
+			});
+		if (hit !== undefined) {
+			log({ evt: `tool_${kind}_cache_hit`, msg: 'cache_hit', shim: cfg.productKey });
+			return map(extractJsonFromContent(hit));
+		}
+		const res = await upstream.callTool({ name, arguments: args });
+		const raw = JSON.parse(JSON.stringify(res)) as JsonValue;
+		if (throwOnError && isErrorResult(raw)) throw new UpstreamToolError(errorText(raw));
+		const mapped = map(extractJsonFromContent(raw));
+		if (key && !isErrorResult(raw))
+			cache?.store.set(key, raw, { ttlMs, product: cfg.productKey, ids: idsOf(mapped) });
+		return mapped;
+	}
+
+	const guard = access && cfg.accessDelegate;
+
+	/** Drops results whose project/space is known to be outside the access scope. */
+	function withinScope(mapped: SearchResults): SearchResults {
+		if (!access || !guard) return mapped;
+		const results = mapped.results.filter(r => {
+			const key = guard.containerOfResult(r);
+			return key === undefined || isAllowed(access, key);
+		});
+		return results.length === mapped.results.length ? mapped : { ...mapped, results };
+	}
+
+	function accessDenied(id: string, key: string | undefined): CallToolResult {
+		const label = guard ? guard.containerLabel : 'container';
+		const text = key
+			? `Access denied: ${id} belongs to ${label} ${key}, which this client may not access.`
+			: `Access denied: the ${label} of ${id} could not be determined.`;
+		return { content: [{ type: 'text', text }], isError: true };
+	}
+
+	/**
+	 * Runs the search attempts of the delegate until one succeeds or no fallback remains. Only the
+	 * arguments sent upstream carry the access clause; results report the query before it, so
+	 * cursors never hold (and re-constrain) an already constrained query.
+	 */
+	async function searchUpstream(query: string, page: SearchPage): Promise<SearchResults> {
+		const delegate = cfg.searchDelegate;
+		let args = delegate.prepareSearchArguments(query, page, siteFacts);
+		for (let attempt = 1; ; attempt++) {
+			const next = delegate.fallbackSearchArguments?.(args, page);
+			const sent = access && guard ? guard.constrainSearchArguments(args, access) : args;
+			try {
+				return await callUpstream(
+					'search',
+					cfg.upstreamSearchTool,
+					sent,
+					raw => withinScope(delegate.mapSearchResults(raw, page, args)),
+					m => m.results.map(r => r.id),
+					next !== undefined,
+				);
+			} catch (e) {
+				// Busy, timed-out or unreachable upstreams get no second request.
+				if (!next || !(e instanceof UpstreamToolError)) throw e;
+				log({
+					evt: 'tool_search_retry',
+					msg: 'retry',
+					shim: cfg.productKey,
+					attempt,
+					reason: e instanceof Error ? e.message : String(e),
+				});
+				args = next;
+			}
+		}
+	}
+
+	/**
+	 * Runs a tool handler in its own span, records call count and latency by outcome (ok, error,
+	 * exception) and writes the audit record. A full upstream queue becomes an error result.
+	 * Calls are tracked until they settle so a shutdown drain can wait for them.
+	 */
+	function instrumented(
+		tool: ToolKind,
+		args: JsonObject,
+		sessionId: string | undefined,
+		handler: (trail: AuditTrail) => Promise<CallToolResult>,
+	): Promise<CallToolResult> {
+		const labels = { product: cfg.productKey, tool };
+		const attributes = { 'shim.product': cfg.productKey, 'mcp.tool.name': tool };
+		const run = () =>
+			withSpan(`tool ${tool}`, SpanKind.INTERNAL, attributes, async span => {
+				const startedAt = Date.now();
+				const stop = metrics.toolDuration.startTimer(labels);
+				const trail: AuditTrail = { documents: [], redactions: {} };
+				let outcome = 'exception';
+				let error: string | undefined;
+				try {
+					const result = await handler(trail).catch(e => {
+						if (!(e instanceof UpstreamBusyError)) throw e;
+						return {
+							content: [{ type: 'text' as const, text: e.message }],
+							isError: true,
+						};
+					});
+					outcome = result.isError ? 'error' : 'ok';
+					if (result.isError) {
+						span.setStatus({ code: SpanStatusCode.ERROR });
+						const first = result.content[0];
+						error = first?.type === 'text' ? first.text : 'tool error';
+					}
+					return result;
+				} catch (e) {
+					error = e instanceof Error ? e.message : String(e);
+					throw e;
+				} finally {
+					const durationMs = Date.now() - startedAt;
+					stop({ outcome });
+					metrics.toolCalls.inc({ ...labels, outcome });
+					for (const [rule, n] of Object.entries(trail.redactions))
+						metrics.redactions.inc({ ...labels, rule }, n);
+					onToolCall?.({
+						at: new Date(startedAt).toISOString(),
+						product: cfg.productKey,
+						tool,
+						session: sessionId,
+						principal: client?.principal,
+						durationMs,
+						outcome,
+						error,
+					});
+					audit?.write({
+						session: sessionId,
+						ip: client?.ip,
+						principal: client?.principal,
+						product: cfg.productKey,
+						tool,
+						arguments: args,
+						query: trail.query,
+						ids: trail.documents.map(d => d.id),
+						urls: trail.documents.map(d => d.url),
+						redactions: Object.keys(trail.redactions).length
+							? trail.redactions
+							: undefined,
+						durationMs,
+						error,
+					});
+				}
+			});
+		return calls ? calls.track(run) : run();
+	}
+
+	// Offsets at or past this are never served.
+	const maxResults =
+		cfg.searchDelegate.paged === false ? SEARCH_PAGE_SIZE : cfg.searchDelegate.maxResults;
+
+	/** Resolves the query and page from an explicit cursor or a `cursor:<token>` query. */
+	function resolveSearchPage(query: string, cursor?: string) {
+		const token = cursor || cursorFromQuery(query);
+		if (!token) return { query, page: { startAt: 0, limit: SEARCH_PAGE_SIZE } };
+		const decoded = decodeCursor(token);
+		if (!decoded || decoded.product !== cfg.productKey) return undefined;
+		// Offsets past what the upstream can serve never come from a cursor this server issued.
+		if (maxResults !== undefined && decoded.startAt >= maxResults) return undefined;
+		return {
+			query: decoded.query,
+			page: { startAt: decoded.startAt, limit: SEARCH_PAGE_SIZE },
+		};
+	}
+
+	function nextCursorFor(query: string, page: SearchPage, mapped: SearchResults) {
+		const nextStart = page.startAt + page.limit;
+		if (maxResults !== undefined && nextStart >= maxResults) return undefined;
+		const hasMore =
+			mapped.total !== undefined
+				? page.startAt + mapped.results.length < mapped.total
+				: mapped.results.length >= page.limit;
+		if (!hasMore) return undefined;
+		return encodeCursor({
+			product: cfg.productKey,
+			query,
+			startAt: nextStart,
+		});
+	}
+
 	mcp.registerTool(
 		'search',
 		{
 			title: 'Search',
-			description: cfg.defaultSearchDescription,
-			inputSchema: { query: z.string() },
-		},
-		async ({ query }) => {
-			const args = cfg.searchDelegate.prepareSearchArguments(String(query));
-			const res = await upstream.callTool({
-				name: cfg.upstreamSearchTool,
-				arguments: args,
-			});
-			const raw = JSON.parse(JSON.stringify(res)) as JsonValue;
-			const mapped = cfg.searchDelegate.mapSearchResults(extractJsonFromContent(raw));
-			log({ evt: 'tool_search_map', msg: 'mapped', shim: cfg.productKey });
-			return { content: [{ type: 'text', text: JSON.stringify(mapped) }] };
+			description: descriptions.search,
+			inputSchema: {
+				query: z.string(),
+				cursor: z
+					.string()
+					.optional()
+					.describe('nextCursor from a previous search result to fetch the next page'),
+			},
 		},
+		({ query, cursor }, extra) =>
+			instrumented(
+				'search',
+				cursor ? { query, cursor } : { query },
+				extra.sessionId,
+				async trail => {
+					const resolved = resolveSearchPage(String(query), cursor);
+					if (!resolved) {
+						return {
+							content: [
+								{
+									type: 'text',
+									text: 'Invalid or foreign cursor; repeat the search.',
+								},
+							],
+							isError: true,
+						};
+					}
+					const { page } = resolved;
+					const mapped = await searchUpstream(resolved.query, page);
+					trail.documents = mapped.results;
+					if (mapped.query !== query) trail.query = mapped.query;
+					// Page on the executed query so later pages cannot be rewritten differently.
+					const nextCursor = nextCursorFor(mapped.query || resolved.query, page, mapped);
+					const results = redactor
+						? redactor.redactResults(mapped.results, trail.redactions)
+						: mapped.results;
+					const out: SearchResults = { ...mapped, results };
+					if (nextCursor) out.nextCursor = nextCursor;
+					log({ evt: 'tool_search_map', msg: 'mapped', shim: cfg.productKey });
+					return { content: [{ type: 'text', text: JSON.stringify(out) }] };
+				},
+			),
 	);
 
 	mcp.registerTool(
 		'fetch',
 		{
 			title: 'Fetch',
-			description: cfg.defaultFetchDescription,
+			description: descriptions.fetch,
 			inputSchema: { id: z.string() },
 		},
-		async ({ id }) => {
-			const args = cfg.fetchDelegate.prepareFetchArguments(String(id));
-			const res = await upstream.callTool({
-				name: cfg.upstreamFetchTool,
-				arguments: args,
-			});
-			const raw = JSON.parse(JSON.stringify(res)) as JsonValue;
-			const mapped = cfg.fetchDelegate.mapFetchResults(extractJsonFromContent(raw));
-			log({ evt: 'tool_fetch_map', msg: 'mapped', shim: cfg.productKey });
-			return { content: [{ type: 'text', text: JSON.stringify(mapped) }] };
-		},
+		({ id }, extra) =>
+			instrumented('fetch', { id }, extra.sessionId, async trail => {
+				// `KEY#2` names the second part of a document split by the token budget.
+				const ref = parseChunkId(String(id));
+				// Ids that name their project (issue keys) are refused without an upstream call.
+				const idKey = guard?.containerOfId(ref.id);
+				if (access && idKey !== undefined && !isAllowed(access, idKey))
+					return accessDenied(ref.id, idKey);
+				const args = cfg.fetchDelegate.prepareFetchArguments(ref.id);
+				let mapped: FetchedDocument;
+				try {
+					mapped = await callUpstream(
+						'fetch',
+						cfg.upstreamFetchTool,
+						args,
+						raw => cfg.fetchDelegate.mapFetchResults(raw),
+						m => [ref.id, m.id],
+						true,
+					);
+				} catch (e) {
+					// Not found / permission errors pass through instead of failing the access check.
+					if (!(e instanceof UpstreamToolError)) throw e;
+					return { content: [{ type: 'text', text: e.message }], isError: true };
+				}
+				const docKey = guard?.containerOfDocument(mapped);
+				if (access && guard && !isAllowed(access, docKey))
+					return accessDenied(ref.id, docKey);
+				trail.documents = [mapped];
+				const doc = documentPart(
+					redactor ? redactor.redactDocument(mapped, trail.redactions) : mapped,
+					ref.part,
+					fetchMaxTokens,
+				);
+				if (!doc)
+					return {
+						content: [{ type: 'text', text: `${ref.id} has no part ${ref.part}.` }],
+						isError: true,
+					};
+				log({ evt: 'tool_fetch_map', msg: 'mapped', shim: cfg.productKey });
+				return { content: [{ type: 'text', text: JSON.stringify(doc) }] };
+			}),
 	);
 
 	return mcp;
@@ -0,0 +1,241 @@
+import { readFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { JsonObject, JsonValue } from '../types/json.js';
+import { ProductShimConfig } from '../types/shim.js';
+import { CONFLUENCE_SHIM_CONFIG } from './confluenceServer.js';
+import {
+	createTemplateFetchDelegate,
+	createTemplateSearchDelegate,
+} from './declarativeDelegates.js';
+import { JIRA_FETCH_SECTIONS, JIRA_MAX_COMMENTS, readJiraRenderOptions } from './jiraRender.js';
+import { REDACTION_DETECTORS } from './redaction.js';
+import { createJiraShimConfig, readJiraProjectKeys } from './jiraServer.js';
+
+const fieldPath = z.union([z.string(), z.array(z.string()).nonempty()]);
+const jsonValue: z.ZodType<JsonValue> = z.lazy(() =>
+	z.union([
+		z.string(),
+		z.number(),
+		z.boolean(),
+		z.null(),
+		z.array(jsonValue),
+		z.record(jsonValue),
+	]),
+);
+const jsonObject: z.ZodType<JsonObject> = z.record(jsonValue);
+const aliasMap = z.record(z.array(z.string().min(1)).nonempty());
+const redactionRule = z
+	.object({
+		name: z.string().regex(/^[\w-]+$/),
+		pattern: z.string().min(1),
+		flags: z
+			.string()
+			.regex(/^[gimsuy]*$/)
+			.optional(),
+		replacement: z.string().optional(),
+	})
+	.superRefine((r, ctx) => {
+		try {
+			new RegExp(r.pattern, r.flags);
+		} catch (e) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ['pattern'],
+				message: e instanceof Error ? e.message : String(e),
+			});
+		}
+	});
+
+const productSchema = z
+	.object({
+		productKey: z.string().regex(/^[a-z][a-z0-9-]*$/i),
+		preset: z.enum(['jira', 'confluence']).optional(),
+		enabled: z.boolean().default(true),
+		serverName: z.string().optional(),
+		port: z.number().int().positive().optional(),
+		publicPrefix: z.string().optional(),
+		upstreamUrl: z.union([z.string().url(), z.array(z.string().url()).nonempty()]).optional(),
+		upstreamSearchTool: z.string().optional(),
+		upstreamFetchTool: z.string().optional(),
+		search: z
+			.object({
+				arguments: jsonObject,
+				results: z.object({
+					list: fieldPath.optional(),
+					id: fieldPath,
+					title: fieldPath,
+					url: fieldPath.optional(),
+					urlTemplate: z.string().optional(),
+					total: fieldPath.optional(),
+				}),
+				maxResults: z.number().int().positive().optional(),
+			})
+			.optional(),
+		fetch: z
+			.object({
+				arguments: jsonObject,
+				result: z.object({
+					root: fieldPath.optional(),
+					id: fieldPath,
+					title: fieldPath,
+					text: fieldPath.optional(),
+					url: fieldPath.optional(),
+					urlTemplate: z.string().optional(),
+					metadata: z.record(fieldPath).optional(),
+				}),
+			})
+			.optional(),
+		descriptions: z
+			.object({
+				search: z.string().optional(),
+				fetch: z.string().optional(),
+				searchFile: z.string().optional(),
+				fetchFile: z.string().optional(),
+			})
+			.optional(),
+		cache: z
+			.object({
+				searchTtlMs: z.number().int().nonnegative().optional(),
+				fetchTtlMs: z.number().int().nonnegative().optional(),
+			})
+			.optional(),
+		redaction: z
+			.object({
+				detectors: z.array(z.enum(REDACTION_DETECTORS)).optional(),
+				rules: z.array(redactionRule).optional(),
+			})
+			.optional(),
+		fetchMaxTokens: z.number().int().nonnegative().optional(),
+		upstreamAliases: z
+			.object({ tools: aliasMap.optional(), arguments: aliasMap.optional() })
+			.optional(),
+		render: z
+			.object({
+				sections: z.array(z.enum(JIRA_FETCH_SECTIONS)).optional(),
+				maxComments: z.number().int().nonnegative().max(JIRA_MAX_COMMENTS).optional(),
+			})
+			.optional(),
+	})
+	.superRefine((p, ctx) => {
+		if (p.render && p.preset !== 'jira')
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ['render'],
+				message: 'render is only supported with preset jira',
+			});
+		if (p.preset) return;
+		for (const key of ['upstreamSearchTool', 'upstreamFetchTool', 'search', 'fetch'] as const)
+			if (!p[key])
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: [key],
+					message: `${key} is required when no preset is given`,
+				});
+	});
+
+const registrySchema = z.object({ products: z.array(productSchema).nonempty() });
+
+export type ProductDefinition = z.infer<typeof productSchema>;
+export type ProductRegistryFile = z.infer<typeof registrySchema>;
+
+export interface RegisteredProduct {
+	cfg: ProductShimConfig;
+	port?: number;
+	publicPrefix: string;
+	/** Registry upstream replicas; unset falls back to the environment. */
+	upstreamUrls?: string[];
+}
+
+export async function loadProductRegistry(file: string): Promise<ProductRegistryFile> {
+	const raw = await readFile(file, 'utf8');
+	const ext = extname(file).toLowerCase();
+	const data = ext === '.yaml' || ext === '.yml' ? parseYaml(raw) : JSON.parse(raw);
+	const parsed = registrySchema.safeParse(data);
+	if (!parsed.success) {
+		const issues = parsed.error.issues
+			.map(i => `${i.path.join('.') || '<root>'}: ${i.message}`)
+			.join('; ');
+		throw new Error(`invalid product registry ${file}: ${issues}`);
+	}
+	const keys = new Set<string>();
+	for (const p of parsed.data.products) {
+		if (keys.has(p.productKey)) throw new Error(`duplicate productKey ${p.productKey}`);
+		keys.add(p.productKey);
+	}
+	return parsed.data;
+}
+
+function presetConfig(def: ProductDefinition): ProductShimConfig | undefined {
+	switch (def.preset) {
+		case 'jira':
+			return createJiraShimConfig(
+				{ ...readJiraRenderOptions(), ...def.render },
+				readJiraProjectKeys(),
+			);
+		case 'confluence':
+			return CONFLUENCE_SHIM_CONFIG;
+		default:
+			return undefined;
+	}
+}
+
+const readDescriptionFile = (file?: string) => (file ? readFileSync(file, 'utf8') : undefined);
+
+export function toShimConfig(def: ProductDefinition): ProductShimConfig {
+	const base = presetConfig(def);
+	const descriptions = def.descriptions;
+	return {
+		productKey: def.productKey,
+		serverName: def.serverName ?? `${def.productKey}-shim`,
+		upstreamSearchTool: def.upstreamSearchTool ?? base?.upstreamSearchTool ?? '',
+		upstreamFetchTool: def.upstreamFetchTool ?? base?.upstreamFetchTool ?? '',
+		defaultSearchDescription:
+			descriptions?.search ??
+			readDescriptionFile(descriptions?.searchFile) ??
+			base?.defaultSearchDescription ??
+			'',
+		defaultFetchDescription:
+			descriptions?.fetch ??
+			readDescriptionFile(descriptions?.fetchFile) ??
+			base?.defaultFetchDescription ??
+			'',
+		searchDelegate: def.search
+			? createTemplateSearchDelegate(def.productKey, def.search)
+			: (base as ProductShimConfig).searchDelegate,
+		fetchDelegate: def.fetch
+			? createTemplateFetchDelegate(def.productKey, def.fetch)
+			: (base as ProductShimConfig).fetchDelegate,
+		// Access policies rewrite the preset queries; custom templates are left alone.
+		accessDelegate: def.search || def.fetch ? undefined : base?.accessDelegate,
+		factsDelegate: base?.factsDelegate,
+		cache: def.cache ?? base?.cache,
+		redaction: def.redaction,
+		fetchMaxTokens: def.fetchMaxTokens,
+		upstreamAliases: def.upstreamAliases,
+	};
+}
+
+export function resolveProducts(registry: ProductRegistryFile): RegisteredProduct[] {
+	return registry.products
+		.filter(p => p.enabled)
+		.map(p => ({
+			cfg: toShimConfig(p),
+			port: p.port,
+			publicPrefix: p.publicPrefix ?? `/${p.productKey}`,
+			upstreamUrls: typeof p.upstreamUrl === 'string' ? [p.upstreamUrl] : p.upstreamUrl,
+		}));
+}
+
+export function defaultProducts(ports: { jira: number; confluence: number }): RegisteredProduct[] {
+	return [
+		{
+			cfg: createJiraShimConfig(readJiraRenderOptions(), readJiraProjectKeys()),
+			port: ports.jira,
+			publicPrefix: '/jira',
+		},
+		{ cfg: CONFLUENCE_SHIM_CONFIG, port: ports.confluence, publicPrefix: '/confluence' },
+	];
+}
@@ -0,0 +1,208 @@
+import { NextFunction, Request, Response } from 'express';
+import { principalOf } from '../auth/index.js';
+import { log } from '../log.js';
+import { metrics } from '../metrics.js';
+import { getClientIp } from '../utils/net.js';
+
+export type RateLimitKey = 'ip' | 'principal' | 'session';
+
+export interface RateLimitOptions {
+	/** Tokens added per second. */
+	ratePerSec: number;
+	/** Bucket size: requests allowed in a burst before the rate applies. */
+	burst: number;
+	/** Finest client identity a bucket is kept for; missing identities fall back to the IP. */
+	key: RateLimitKey;
+}
+
+/** True when `sessionId` names a live session the request's caller owns. */
+export type SessionLookup = (sessionId: string, req: Request) => boolean;
+
+export interface ConcurrencyLimitOptions {
+	maxConcurrent: number;
+	/** Calls allowed to wait for a slot; further calls are rejected at once. */
+	maxQueue: number;
+	queueTimeoutMs: number;
+}
+
+interface Bucket {
+	tokens: number;
+	updatedAt: number;
+}
+
+const RATE_LIMIT_KEYS: RateLimitKey[] = ['ip', 'principal', 'session'];
+const SWEEP_EVERY = 1000;
+
+export function readRateLimitOptions(
+	env: NodeJS.ProcessEnv = process.env,
+): RateLimitOptions | undefined {
+	const ratePerSec = Number(env.RATE_LIMIT_RPS || 0);
+	if (!(ratePerSec > 0)) return undefined;
+	const key = (env.RATE_LIMIT_KEY || 'principal').toLowerCase() as RateLimitKey;
+	if (!RATE_LIMIT_KEYS.includes(key))
+		throw new Error(`RATE_LIMIT_KEY must be one of ${RATE_LIMIT_KEYS.join(', ')}`);
+	return {
+		ratePerSec,
+		burst: Number(env.RATE_LIMIT_BURST || Math.max(1, Math.ceil(ratePerSec * 2))),
+		key,
+	};
+}
+
+export function readConcurrencyLimitOptions(
+	env: NodeJS.ProcessEnv = process.env,
+): ConcurrencyLimitOptions | undefined {
+	const maxConcurrent = Number(env.UPSTREAM_MAX_CONCURRENCY || 0);
+	if (!(maxConcurrent > 0)) return undefined;
+	return {
+		maxConcurrent,
+		maxQueue: Number(env.UPSTREAM_QUEUE_MAX ?? 100),
+		queueTimeoutMs: Number(env.UPSTREAM_QUEUE_TIMEOUT_MS || 10_000),
+	};
+}
+
+/** Token buckets per client key. Full buckets are dropped, so idle clients cost nothing. */
+export class RateLimiter {
+	private readonly buckets = new Map<string, Bucket>();
+	private takes = 0;
+
+	constructor(readonly opts: RateLimitOptions) {}
+
+	/** Takes a token for `key`; returns 0 when allowed, else the milliseconds until one is free. */
+	take(key: string, now = Date.now()): number {
+		if (++this.takes % SWEEP_EVERY === 0) this.sweep(now);
+		const bucket = this.refill(this.buckets.get(key), now);
+		this.buckets.set(key, bucket);
+		if (bucket.tokens >= 1) {
+			bucket.tokens -= 1;
+			return 0;
+		}
+		return Math.ceil(((1 - bucket.tokens) / this.opts.ratePerSec) * 1000);
+	}
+
+	/**
+	 * Client key of a request at the configured granularity. Session ids are client supplied, so
+	 * they only key a bucket when `isLiveSession` confirms one; otherwise a fresh id per request
+	 * would always find a full bucket.
+	 */
+	keyOf(req: Request, isLiveSession?: SessionLookup): string {
+		const ip = getClientIp(req);
+		const principal = principalOf(req.auth);
+		if (this.opts.key === 'session' && isLiveSession) {
+			const sid = String(
+				req.headers['mcp-session-id'] || req.query.sessionId || req.query.session_id || '',
+			);
+			if (sid && isLiveSession(sid, req)) return `session:${sid}`;
+		}
+		if (this.opts.key !== 'ip' && principal) return `principal:${principal}`;
+		return `ip:${ip}`;
+	}
+
+	private refill(bucket: Bucket | undefined, now: number): Bucket {
+		const { burst, ratePerSec } = this.opts;
+		if (!bucket) return { tokens: burst, updatedAt: now };
+		const tokens = bucket.tokens + ((now - bucket.updatedAt) / 1000) * ratePerSec;
+		return { tokens: Math.min(burst, tokens), updatedAt: now };
+	}
+
+	private sweep(now: number) {
+		for (const [key, bucket] of this.buckets)
+			if (this.refill(bucket, now).tokens >= this.opts.burst) this.buckets.delete(key);
+	}
+}
+
+/** Rejects requests over the client's rate with 429, `Retry-After` and a JSON-RPC error body. */
+export function createRateLimitMiddleware(
+	limiter: RateLimiter,
+	product: string,
+	isLiveSession?: SessionLookup,
+) {
+	return (req: Request, res: Response, next: NextFunction) => {
+		const key = limiter.keyOf(req, isLiveSession);
+		const waitMs = limiter.take(key);
+		if (!waitMs) return next();
+		metrics.rateLimited.inc({ product });
+		log({
+			evt: 'rate_limited',
+			msg: 'rate_limited',
+			shim: product,
+			ip: getClientIp(req),
+			principal: principalOf(req.auth),
+			delayMs: waitMs,
+		});
+		res.setHeader('Retry-After', String(Math.ceil(waitMs / 1000)));
+		res.status(429).json({
+			jsonrpc: '2.0',
+			error: { code: -32000, message: 'Rate limit exceeded; retry later' },
+			id: req.body?.id ?? null,
+		});
+	};
+}
+
+/** Raised when an upstream call cannot get a concurrency slot in time. */
+export class UpstreamBusyError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'UpstreamBusyError';
+	}
+}
+
+/** Bounded FIFO of calls in front of the upstream MCP server. */
+export class ConcurrencyLimiter {
+	private active = 0;
+	private readonly waiting: (() => void)[] = [];
+
+	constructor(readonly opts: ConcurrencyLimitOptions) {}
+
+	async run<T>(fn: () => Promise<T>): Promise<T> {
+		await this.acquire();
+		try {
+			return await fn();
+		} finally {
+			this.active--;
+			this.waiting.shift()?.();
+			this.report();
+		}
+	}
+
+	private acquire(): Promise<void> {
+		const { maxConcurrent, maxQueue, queueTimeoutMs } = this.opts;
+		if (this.active < maxConcurrent) {
+			this.active++;
+			this.report();
+			return Promise.resolve();
+		}
+		if (this.waiting.length >= maxQueue) {
+			metrics.upstreamRejected.inc({ reason: 'queue_full' });
+			return Promise.reject(
+				new UpstreamBusyError(
+					`Upstream is busy (${this.waiting.length} calls queued); retry shortly`,
+				),
+			);
+		}
+		return new Promise((resolve, reject) => {
+			const grant = () => {
+				clearTimeout(timer);
+				this.active++;
+				resolve();
+			};
+			const timer = setTimeout(() => {
+				const i = this.waiting.indexOf(grant);
+				if (i >= 0) this.waiting.splice(i, 1);
+				this.report();
+				metrics.upstreamRejected.inc({ reason: 'queue_timeout' });
+				reject(
+					new UpstreamBusyError(
+						`Upstream is busy; no slot within ${queueTimeoutMs} ms, retry shortly`,
+					),
+				);
+			}, queueTimeoutMs);
+			this.waiting.push(grant);
+			this.report();
+		});
+	}
+
+	private report() {
+		metrics.upstreamInFlight.set(this.active);
+		metrics.upstreamQueued.set(this.waiting.length);
+	}
+}
@@ -0,0 +1,34 @@
+/** One finished `search` / `fetch` call, kept for the admin API. */
+export interface ToolCallRecord {
+	at: string;
+	product: string;
+	tool: string;
+	session?: string;
+	principal?: string;
+	durationMs: number;
+	/** `ok`, `error` (error result) or `exception`. */
+	outcome: string;
+	error?: string;
+}
+
+export function readRecentCallsSize(env: NodeJS.ProcessEnv = process.env): number {
+	return Number(env.ADMIN_RECENT_CALLS || 100);
+}
+
+/** Ring buffer of the last tool calls across every product. */
+export class RecentCalls {
+	private readonly records: ToolCallRecord[] = [];
+
+	constructor(private readonly size: number) {}
+
+	add(record: ToolCallRecord) {
+		if (this.size <= 0) return;
+		this.records.push(record);
+		if (this.records.length > this.size) this.records.shift();
+	}
+
+	/** Newest first. */
+	list(limit = this.size): ToolCallRecord[] {
+		return limit > 0 ? this.records.slice(-limit).reverse() : [];
+	}
+}
@@ -0,0 +1,171 @@
+import { JsonObject, JsonValue } from '../types/json.js';
+import { ProductRedactionConfig, RedactionDetector } from '../types/shim.js';
+import { FetchedDocument, SearchResultItem } from '../types/tools.js';
+
+// Applied in this order, so secrets are masked before their parts could match as emails.
+export const REDACTION_DETECTORS = [
+	'secret',
+	'card',
+	'email',
+	'phone',
+] as const satisfies readonly RedactionDetector[];
+
+/** Matches per rule name, e.g. `{ email: 2, secret: 1 }`. */
+export type RedactionCounts = Record<string, number>;
+
+interface CompiledRule {
+	name: string;
+	pattern: RegExp;
+	replacement: string;
+	/** Rejects candidates that only look like a match (e.g. failing the card checksum). */
+	accept?: (match: string) => boolean;
+}
+
+type ReplaceArg = string | number | Record<string, string> | undefined;
+
+// A named `value` group redacts only that part, keeping labels such as `password:`.
+const SECRET_PATTERNS: RegExp[] = [
+	/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+	/\bAKIA[0-9A-Z]{16}\b/g,
+	/\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}\b/g,
+	/\bgithub_pat_[A-Za-z0-9_]{22,}/g,
+	/\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+	/\b[rs]k_live_[A-Za-z0-9]{16,}/g,
+	/\bAIza[0-9A-Za-z_-]{35}/g,
+	/\bATATT[A-Za-z0-9_=-]{20,}/g,
+	/\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+	/\b(?:Bearer|Basic|Token)\s+(?<value>[A-Za-z0-9._~+/=-]{16,})/g,
+	/\b(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret)\b["']?\s*[:=]\s*["']?(?<value>[^\s"',;]{4,})/gi,
+];
+
+function luhn(candidate: string): boolean {
+	const digits = candidate.replace(/\D/g, '');
+	if (digits.length < 13 || digits.length > 19) return false;
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let d = Number(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) d = d * 2 > 9 ? d * 2 - 9 : d * 2;
+		sum += d;
+	}
+	return sum % 10 === 0;
+}
+
+function builtinRules(detector: RedactionDetector): CompiledRule[] {
+	const replacement = `[REDACTED:${detector}]`;
+	switch (detector) {
+		case 'secret':
+			return SECRET_PATTERNS.map(pattern => ({ name: detector, pattern, replacement }));
+		case 'card':
+			return [
+				{
+					name: detector,
+					pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+					replacement,
+					accept: luhn,
+				},
+			];
+		case 'email':
+			return [
+				{
+					name: detector,
+					pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+					replacement,
+				},
+			];
+		case 'phone':
+			return [
+				{
+					name: detector,
+					pattern: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g,
+					replacement,
+				},
+			];
+	}
+}
+
+export function parseRedactionDetectors(value: string | undefined): RedactionDetector[] {
+	const names = (value || '')
+		.split(',')
+		.map(s => s.trim().toLowerCase())
+		.filter(Boolean);
+	if (names.includes('all')) return [...REDACTION_DETECTORS];
+	const unknown = names.filter(n => !REDACTION_DETECTORS.includes(n as RedactionDetector));
+	if (unknown.length)
+		throw new Error(
+			`unknown redaction detectors: ${unknown.join(', ')} (expected ${REDACTION_DETECTORS.join(', ')} or all)`,
+		);
+	return names as RedactionDetector[];
+}
+
+export function readRedactionDetectors(env: NodeJS.ProcessEnv = process.env): RedactionDetector[] {
+	return parseRedactionDetectors(env.REDACT_DETECTORS);
+}
+
+/** Replaces sensitive substrings in fetched documents and search titles, counting matches. */
+export class Redactor {
+	constructor(private readonly rules: CompiledRule[]) {}
+
+	redactText(text: string, counts: RedactionCounts): string {
+		let out = text;
+		for (const rule of this.rules) {
+			out = out.replace(rule.pattern, (match: string, ...rest: ReplaceArg[]) => {
+				if (rule.accept && !rule.accept(match)) return match;
+				counts[rule.name] = (counts[rule.name] ?? 0) + 1;
+				const groups = rest[rest.length - 1];
+				const value = typeof groups === 'object' ? groups['value'] : undefined;
+				if (!value) return rule.replacement;
+				const at = match.lastIndexOf(value);
+				return match.slice(0, at) + rule.replacement + match.slice(at + value.length);
+			});
+		}
+		return out;
+	}
+
+	private redactJson(value: JsonValue, counts: RedactionCounts): JsonValue {
+		if (typeof value === 'string') return this.redactText(value, counts);
+		if (Array.isArray(value)) return value.map(v => this.redactJson(v, counts));
+		if (value && typeof value === 'object') {
+			const out: JsonObject = {};
+			for (const [k, v] of Object.entries(value)) out[k] = this.redactJson(v, counts);
+			return out;
+		}
+		return value;
+	}
+
+	/** Redacted copy of the document; `metadata.redactions` holds the counts when any matched. */
+	redactDocument(doc: FetchedDocument, counts: RedactionCounts = {}): FetchedDocument {
+		const redacted: FetchedDocument = {
+			...doc,
+			title: this.redactText(doc.title, counts),
+			text: this.redactText(doc.text, counts),
+			metadata: this.redactJson(doc.metadata, counts) as JsonObject,
+		};
+		if (Object.keys(counts).length)
+			redacted.metadata = { ...redacted.metadata, redactions: { ...counts } };
+		return redacted;
+	}
+
+	redactResults(results: SearchResultItem[], counts: RedactionCounts = {}): SearchResultItem[] {
+		return results.map(r => ({ ...r, title: this.redactText(r.title, counts) }));
+	}
+}
+
+/**
+ * Redactor for a product: its own detectors (or the process-wide defaults) followed by its
+ * custom rules. Returns undefined when nothing is configured.
+ */
+export function createRedactor(
+	defaults: RedactionDetector[],
+	product?: ProductRedactionConfig,
+): Redactor | undefined {
+	const detectors = product?.detectors ?? defaults;
+	const rules = [
+		...REDACTION_DETECTORS.filter(d => detectors.includes(d)).flatMap(builtinRules),
+		...(product?.rules ?? []).map(r => ({
+			name: r.name,
+			pattern: new RegExp(r.pattern, `g${(r.flags ?? '').replace(/g/g, '')}`),
+			replacement: r.replacement ?? `[REDACTED:${r.name}]`,
+		})),
+	];
+	return rules.length ? new Redactor(rules) : undefined;
+}
@@ -0,0 +1,151 @@
+import { log } from '../log.js';
+import { metrics } from '../metrics.js';
+import { JsonValue } from '../types/json.js';
+
+export interface ResponseCacheOptions {
+	maxEntries: number;
+	maxBytes: number;
+	searchTtlMs: number;
+	fetchTtlMs: number;
+}
+
+export interface CacheSetOptions {
+	ttlMs: number;
+	product: string;
+	/** Document ids contained in the value, used by `purge({ id })`. */
+	ids: string[];
+}
+
+export interface CachePurgeFilter {
+	product?: string;
+	id?: string;
+}
+
+export interface CacheStats {
+	entries: number;
+	bytes: number;
+	hits: number;
+	misses: number;
+}
+
+interface CacheEntry {
+	value: JsonValue;
+	expiresAt: number;
+	bytes: number;
+	product: string;
+	ids: string[];
+}
+
+const idTag = (product: string, id: string) => `${product}\u0000${id}`;
+
+export function readCacheOptions(env: NodeJS.ProcessEnv = process.env): ResponseCacheOptions {
+	return {
+		maxEntries: Number(env.CACHE_MAX_ENTRIES || 500),
+		maxBytes: Number(env.CACHE_MAX_BYTES || 50 * 1024 * 1024),
+		searchTtlMs: Number(env.CACHE_SEARCH_TTL_MS ?? 60_000),
+		fetchTtlMs: Number(env.CACHE_FETCH_TTL_MS ?? 300_000),
+	};
+}
+
+/**
+ * LRU cache for upstream tool results bounded by entry count and approximate serialized size.
+ * Keys must include the credential scope so entries never leak between users.
+ */
+export class ResponseCache {
+	private readonly entries = new Map<string, CacheEntry>();
+	private readonly byId = new Map<string, Set<string>>();
+	private bytes = 0;
+	private hits = 0;
+	private misses = 0;
+
+	constructor(readonly opts: ResponseCacheOptions) {}
+
+	static key(scope: string, product: string, tool: string, args: JsonValue): string {
+		return [scope, product, tool, JSON.stringify(args)].join('\u0000');
+	}
+
+	get(key: string): JsonValue | undefined {
+		const entry = this.entries.get(key);
+		if (!entry || entry.expiresAt <= Date.now()) {
+			if (entry) this.delete(key);
+			this.misses++;
+			return undefined;
+		}
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		this.hits++;
+		return entry.value;
+	}
+
+	set(key: string, value: JsonValue, { ttlMs, product, ids }: CacheSetOptions) {
+		if (ttlMs <= 0) return;
+		const bytes = Buffer.byteLength(JSON.stringify(value));
+		if (bytes > this.opts.maxBytes) return;
+		this.delete(key);
+		this.entries.set(key, { value, expiresAt: Date.now() + ttlMs, bytes, product, ids });
+		this.bytes += bytes;
+		this.reportSize();
+		for (const id of ids) {
+			const tag = idTag(product, id);
+			const keys = this.byId.get(tag) ?? new Set<string>();
+			keys.add(key);
+			this.byId.set(tag, keys);
+		}
+		this.evict();
+	}
+
+	purge({ product, id }: CachePurgeFilter = {}): number {
+		let keys: string[];
+		if (id) {
+			const tags = product
+				? [idTag(product, id)]
+				: [...this.byId.keys()].filter(t => t.endsWith(`\u0000${id}`));
+			keys = tags.flatMap(t => [...(this.byId.get(t) ?? [])]);
+		} else if (product) {
+			keys = [...this.entries].filter(([, e]) => e.product === product).map(([k]) => k);
+		} else {
+			keys = [...this.entries.keys()];
+		}
+		let purged = 0;
+		for (const key of keys) if (this.delete(key)) purged++;
+		log({ evt: 'cache_purge', msg: 'purge', shim: product, docId: id, count: purged });
+		return purged;
+	}
+
+	stats(): CacheStats {
+		return {
+			entries: this.entries.size,
+			bytes: this.bytes,
+			hits: this.hits,
+			misses: this.misses,
+		};
+	}
+
+	private reportSize() {
+		metrics.cacheEntries.set(this.entries.size);
+		metrics.cacheBytes.set(this.bytes);
+	}
+
+	private delete(key: string): boolean {
+		const entry = this.entries.get(key);
+		if (!entry) return false;
+		this.entries.delete(key);
+		this.bytes -= entry.bytes;
+		this.reportSize();
+		for (const id of entry.ids) {
+			const tag = idTag(entry.product, id);
+			const keys = this.byId.get(tag);
+			keys?.delete(key);
+			if (keys && !keys.size) this.byId.delete(tag);
+		}
+		return true;
+	}
+
+	private evict() {
+		for (const key of this.entries.keys()) {
+			if (this.entries.size <= this.opts.maxEntries && this.bytes <= this.opts.maxBytes)
+				break;
+			this.delete(key);
+		}
+	}
+}
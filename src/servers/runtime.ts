@@ -0,0 +1,83 @@
+import { readAuthConfig } from '../auth/index.js';
+import { readMetricsEnabled } from '../metrics.js';
+import { AuthConfig } from '../types/auth.js';
+import { RedactionDetector } from '../types/shim.js';
+import { UpstreamAliases, UpstreamPoolConfig } from '../types/upstream.js';
+import { AccessPolicy, readAccessPolicy } from './accessPolicy.js';
+import { AdminShim } from './adminRouter.js';
+import { AuditLog, readAuditLogOptions } from './auditLog.js';
+import { readFetchMaxTokens } from './fetchChunks.js';
+import { LifecycleManager, readLifecycleOptions } from './lifecycle.js';
+import { DescriptionOptions, readDescriptionOptions } from './toolDescriptions.js';
+import { readRedactionDetectors } from './redaction.js';
+import { readUpstreamPoolConfig } from './credentials.js';
+import {
+	ConcurrencyLimiter,
+	RateLimiter,
+	readConcurrencyLimitOptions,
+	readRateLimitOptions,
+} from './rateLimit.js';
+import { readRecentCallsSize, RecentCalls } from './recentCalls.js';
+import { readCacheOptions, ResponseCache } from './responseCache.js';
+import { readUpstreamAliases } from './upstreamTools.js';
+
+/** Process-wide services shared by every product shim. */
+export interface ShimRuntime {
+	auth?: AuthConfig;
+	upstreamPool: UpstreamPoolConfig;
+	/** Tool and argument aliases for every product's upstream. */
+	upstreamAliases: UpstreamAliases;
+	cache?: ResponseCache;
+	audit?: AuditLog;
+	accessPolicy?: AccessPolicy;
+	/** Built-in redaction detectors for products without their own list. */
+	redactDetectors: RedactionDetector[];
+	/** Description overrides, site fact refresh and size cap. */
+	descriptions: DescriptionOptions;
+	/** Token budget of a fetched document before it is split into parts; 0 disables. */
+	fetchMaxTokens: number;
+	/** Token buckets per client on the MCP endpoints. */
+	rateLimiter?: RateLimiter;
+	/** Concurrency queue shared by every upstream client. */
+	upstreamLimiter?: ConcurrencyLimiter;
+	adminToken?: string;
+	/** Serve the admin API on its own port instead of `/admin` on the shim ports. */
+	adminPort?: number;
+	/** Products served by this process, keyed by product key, for the admin API. */
+	shims: Map<string, AdminShim>;
+	/** Last tool calls across every product, for the admin API. */
+	recentCalls: RecentCalls;
+	/** Streamable HTTP sessions without requests for this long are closed; 0 keeps them. */
+	sessionIdleMs: number;
+	/** Serve Prometheus metrics on `/metrics`. */
+	metricsEnabled: boolean;
+	/** Signal handling and graceful drain for every shim server. */
+	lifecycle: LifecycleManager;
+}
+
+export function createShimRuntime(env: NodeJS.ProcessEnv = process.env): ShimRuntime {
+	const cacheOptions = readCacheOptions(env);
+	const auditOptions = readAuditLogOptions(env);
+	const rateLimit = readRateLimitOptions(env);
+	const concurrency = readConcurrencyLimitOptions(env);
+	return {
+		auth: readAuthConfig(env),
+		upstreamPool: readUpstreamPoolConfig(env),
+		upstreamAliases: readUpstreamAliases(env),
+		cache: cacheOptions.maxEntries > 0 ? new ResponseCache(cacheOptions) : undefined,
+		audit: auditOptions ? new AuditLog(auditOptions) : undefined,
+		accessPolicy: readAccessPolicy(env),
+		redactDetectors: readRedactionDetectors(env),
+		descriptions: readDescriptionOptions(env),
+		fetchMaxTokens: readFetchMaxTokens(env),
+		rateLimiter: rateLimit ? new RateLimiter(rateLimit) : undefined,
+		upstreamLimiter: concurrency ? new ConcurrencyLimiter(concurrency) : undefined,
+		adminToken: env.ADMIN_API_KEY || undefined,
+		adminPort: env.ADMIN_PORT ? Number(env.ADMIN_PORT) : undefined,
+		shims: new Map(),
+		recentCalls: new RecentCalls(readRecentCallsSize(env)),
+		sessionIdleMs: Number(env.SESSION_IDLE_MS ?? 1_800_000),
+		metricsEnabled: readMetricsEnabled(env),
+		lifecycle: new LifecycleManager(readLifecycleOptions(env)),
+	};
+}
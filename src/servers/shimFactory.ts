@@ -1,45 +1,97 @@
 import { log } from '../log.js';
+import { normalizePrefix } from '../utils/prefix.js';
 import { ProductShimConfig, ShimOptions } from '../types/shim.js';
-import { createHttpServer } from './httpServer.js';
+import { createAdminApp, createHttpServer, createSinglePortServer } from './httpServer.js';
+import { createShimRuntime, ShimRuntime } from './runtime.js';
 
-export async function startShimServer(opts: ShimOptions, cfg: ProductShimConfig) {
-	await new Promise(r => setTimeout(r, 1000));
+export interface SinglePortProduct {
+	cfg: ProductShimConfig;
+	publicPrefix: string;
+	/** Upstream replica URLs in preference order. */
+	upstreamUrls: string[];
+}
+
+export interface SinglePortOptions {
+	port: number;
+	products: SinglePortProduct[];
+	runtime: ShimRuntime;
+}
+
+export async function startShimServer(
+	opts: ShimOptions,
+	cfg: ProductShimConfig,
+	runtime: ShimRuntime = createShimRuntime(),
+) {
 	const initTs = Date.now();
 	log({
 		evt: 'shim_init',
 		msg: 'init',
 		shim: cfg.productKey,
 		port: opts.port,
-		upstreamUrl: opts.upstreamUrl,
+		upstreamUrls: opts.upstreamUrls,
 	});
 	const staticPrefix = (opts.publicPrefix ?? '').replace(/\/+$/, '');
 	const { server, sessions, closeUpstream } = createHttpServer({
 		opts,
 		cfg,
-		upstreamUrl: opts.upstreamUrl,
+		upstreamUrls: opts.upstreamUrls,
 		staticPrefix,
 		initTs,
+		runtime,
 	});
 
-	const shutdown = () => {
-		const shutdownLog = {
-			evt: 'shim_shutdown',
-			msg: 'shutdown',
-			shim: cfg.productKey,
-		} as const;
-		log(shutdownLog);
-		server.close(() => process.exit(0));
-		void closeUpstream();
-		for (const [sid, t] of Object.entries(sessions) as [string, { close?: () => void }][]) {
-			try {
-				t.close?.();
-				delete sessions[sid];
-			} catch {
-				void 0;
-			}
-		}
-	};
-	process.on('SIGINT', shutdown);
-	process.on('SIGTERM', shutdown);
+	runtime.lifecycle.register(server, [{ product: cfg.productKey, sessions, closeUpstream }]);
+	runtime.lifecycle.installSignalHandlers();
+	return server;
+}
+
+export async function startSinglePortServer({ port, products, runtime }: SinglePortOptions) {
+	const initTs = Date.now();
+	log({
+		evt: 'shim_init',
+		msg: 'init',
+		port,
+		products: products.map(p => p.cfg.productKey),
+	});
+	const { server, shims } = createSinglePortServer({
+		port,
+		initTs,
+		runtime,
+		shims: products.map(p => ({
+			cfg: p.cfg,
+			upstreamUrls: p.upstreamUrls,
+			mountPath: normalizePrefix(p.publicPrefix.replace(/\/+$/, '')),
+		})),
+	});
+
+	runtime.lifecycle.register(
+		server,
+		shims.map(s => ({
+			product: s.cfg.productKey,
+			sessions: s.sessions,
+			closeUpstream: s.closeUpstream,
+		})),
+	);
+	runtime.lifecycle.installSignalHandlers();
+	return server;
+}
+
+/** Serves the admin API on `ADMIN_PORT`; undefined when no port or no `ADMIN_API_KEY` is set. */
+export async function startAdminServer(runtime: ShimRuntime) {
+	const { adminPort: port, adminToken } = runtime;
+	if (!port) return undefined;
+	if (!adminToken) {
+		log({
+			evt: 'admin_disabled',
+			msg: 'ADMIN_PORT is set without ADMIN_API_KEY; admin API not started',
+			lvl: 'warn',
+		});
+		return undefined;
+	}
+	const server = createAdminApp({ ...runtime, adminToken }).listen(port, () => {
+		log({ evt: 'admin_listen', msg: 'listen', port, url: `http://localhost:${port}/admin` });
+	});
+	runtime.lifecycle.register(server, []);
+	runtime.lifecycle.installSignalHandlers();
 	return server;
 }
@@ -0,0 +1,260 @@
+import { readFileSync } from 'fs';
+import { log } from '../log.js';
+import { JsonValue } from '../types/json.js';
+import {
+	AccessScope,
+	ProductShimConfig,
+	SiteFact,
+	SiteFacts,
+	UpstreamToolCall,
+} from '../types/shim.js';
+import { extractJsonFromContent } from '../utils/jsonExtract.js';
+import { placeholderNames, renderString, TemplateVars } from '../utils/template.js';
+import { isAllowed } from './accessPolicy.js';
+import { UpstreamCallable } from './upstreamClient.js';
+
+export interface DescriptionTemplates {
+	search: string;
+	fetch: string;
+}
+
+export interface DescriptionOptions {
+	/** How often site facts are read again; 0 reads them once at startup. */
+	refreshMs: number;
+	/** Rendered descriptions are cut to this many characters. */
+	maxChars: number;
+	/** Items listed per fact before `(+N more)`. */
+	maxFacts: number;
+	/** `<PRODUCT>_SEARCH_DESCRIPTION[_FILE]` / `<PRODUCT>_FETCH_DESCRIPTION[_FILE]` by product env prefix. */
+	overrides: Record<string, Partial<DescriptionTemplates>>;
+}
+
+const OVERRIDE_VAR = /^([A-Z0-9_]+)_(SEARCH|FETCH)_DESCRIPTION(_FILE)?$/;
+
+const envPrefix = (productKey: string) => productKey.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+
+/** Inline values win over `_FILE` ones; files are read once, here. */
+export function readDescriptionOptions(env: NodeJS.ProcessEnv = process.env): DescriptionOptions {
+	const overrides: DescriptionOptions['overrides'] = {};
+	// Shortest names first, so an inline value is seen before its `_FILE` variant.
+	const entries = Object.entries(env).sort(([a], [b]) => a.length - b.length);
+	for (const [name, value] of entries) {
+		const m = OVERRIDE_VAR.exec(name);
+		if (!m || !value) continue;
+		const [, prefix, tool, file] = m;
+		const key = tool === 'SEARCH' ? 'search' : 'fetch';
+		const own = (overrides[prefix] ??= {});
+		if (own[key] !== undefined) continue;
+		own[key] = file ? readFileSync(value, 'utf8') : value;
+	}
+	return {
+		refreshMs: Number(env.DESCRIPTION_REFRESH_MS || 3_600_000),
+		maxChars: Number(env.DESCRIPTION_MAX_CHARS || 4000),
+		maxFacts: Number(env.DESCRIPTION_MAX_FACTS || 25),
+		overrides,
+	};
+}
+
+/** Values ordered by how often they occur, then alphabetically. */
+export function rankByFrequency(values: Iterable<string>): string[] {
+	const counts = new Map<string, number>();
+	for (const v of values) if (v) counts.set(v, (counts.get(v) ?? 0) + 1);
+	return [...counts.entries()]
+		.sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+		.map(([v]) => v);
+}
+
+/** Distinct values ranked by frequency, each with every container it was seen in. */
+export function rankFacts(seen: { value: string; container?: string }[]): SiteFact[] {
+	const containers = new Map<string, Set<string>>();
+	for (const { value, container } of seen) {
+		if (!value) continue;
+		const set = containers.get(value) ?? new Set<string>();
+		if (container) set.add(container);
+		containers.set(value, set);
+	}
+	return rankByFrequency(seen.map(s => s.value)).map(value => ({
+		value,
+		containers: [...(containers.get(value) ?? [])],
+	}));
+}
+
+/**
+ * Facts the scope may see: those seen in at least one allowed container. Facts without a known
+ * container are treated like documents whose project cannot be told.
+ */
+function scopeFacts(facts: SiteFacts, scope: AccessScope): SiteFacts {
+	const out: SiteFacts = {};
+	for (const [name, items] of Object.entries(facts))
+		out[name] = items.filter(f =>
+			f.containers.length
+				? f.containers.some(c => isAllowed(scope, c))
+				: isAllowed(scope, undefined),
+		);
+	return out;
+}
+
+function formatList(items: string[], limit: number): string {
+	if (limit <= 0 || !items.length) return '';
+	const shown = items.slice(0, limit).join(', ');
+	return items.length > limit ? `${shown} (+${items.length - limit} more)` : shown;
+}
+
+/** `{{name}}` is the list, `{{name.first}}` its first item or the delegate's example. */
+function templateVars(facts: SiteFacts, examples: Record<string, string>, limit: number) {
+	const vars: TemplateVars = {};
+	for (const [name, example] of Object.entries(examples)) vars[`${name}.first`] = example;
+	for (const [name, items] of Object.entries(facts)) {
+		vars[name] = formatList(
+			items.map(f => f.value),
+			limit,
+		);
+		if (items.length) vars[`${name}.first`] = items[0].value;
+	}
+	return vars;
+}
+
+/** True when the text has placeholders and every one of them renders empty. */
+function onlyEmptyPlaceholders(text: string, vars: TemplateVars) {
+	const names = placeholderNames(text);
+	return names.length > 0 && names.every(n => !vars[n]);
+}
+
+/**
+ * Renders placeholders, dropping paragraphs and lines whose placeholders are all empty (facts
+ * not read yet) so no dangling `Projects:` labels are left behind.
+ */
+function render(template: string, vars: TemplateVars): string {
+	return template
+		.split('\n\n')
+		.filter(paragraph => !onlyEmptyPlaceholders(paragraph, vars))
+		.map(paragraph =>
+			paragraph
+				.split('\n')
+				.filter(line => !onlyEmptyPlaceholders(line, vars))
+				.join('\n'),
+		)
+		.map(paragraph => renderString(paragraph, vars))
+		.join('\n\n');
+}
+
+/** Halves the listed items until the description fits `maxChars`, then cuts it. */
+export function renderDescription(
+	template: string,
+	facts: SiteFacts,
+	examples: Record<string, string>,
+	opts: Pick<DescriptionOptions, 'maxChars' | 'maxFacts'>,
+): string {
+	for (let limit = opts.maxFacts; ; limit = Math.floor(limit / 2)) {
+		const text = render(template, templateVars(facts, examples, limit));
+		if (text.length <= opts.maxChars) return text;
+		if (limit <= 0) return `${text.slice(0, Math.max(0, opts.maxChars - 1))}…`;
+	}
+}
+
+/** Env overrides, then the product config (registry or preset). */
+export function descriptionTemplates(
+	cfg: ProductShimConfig,
+	opts: DescriptionOptions,
+): DescriptionTemplates {
+	const own = opts.overrides[envPrefix(cfg.productKey)];
+	return {
+		search: own?.search ?? cfg.defaultSearchDescription,
+		fetch: own?.fetch ?? cfg.defaultFetchDescription,
+	};
+}
+
+const isErrorResult = (raw: JsonValue) =>
+	Boolean(raw && typeof raw === 'object' && !Array.isArray(raw) && raw['isError'] === true);
+
+function toolCall(upstream: UpstreamCallable): UpstreamToolCall {
+	return async (name, args) => {
+		const res = await upstream.callTool({ name, arguments: args });
+		const raw = JSON.parse(JSON.stringify(res)) as JsonValue;
+		if (isErrorResult(raw)) throw new Error(`${name} returned an error`);
+		return extractJsonFromContent(raw);
+	};
+}
+
+/**
+ * The `search` / `fetch` descriptions of one product: templates filled with the site facts read
+ * through its facts delegate, re-rendered whenever the facts are refreshed.
+ */
+export class ToolDescriptions {
+	private facts: SiteFacts = {};
+	private rendered: DescriptionTemplates;
+	/** Renderings for access scopes, keyed by the scope; cleared when facts change. */
+	private scoped = new Map<string, DescriptionTemplates>();
+	refreshedAt?: string;
+
+	constructor(
+		private readonly cfg: ProductShimConfig,
+		private readonly templates: DescriptionTemplates,
+		private readonly opts: DescriptionOptions,
+	) {
+		this.rendered = this.render();
+	}
+
+	get current(): DescriptionTemplates {
+		return this.rendered;
+	}
+
+	/** Descriptions listing only the facts of projects/spaces the scope may see. */
+	forScope(scope?: AccessScope): DescriptionTemplates {
+		if (!scope) return this.rendered;
+		const key = JSON.stringify(scope);
+		let rendered = this.scoped.get(key);
+		if (!rendered) {
+			rendered = this.render(scopeFacts(this.facts, scope));
+			this.scoped.set(key, rendered);
+		}
+		return rendered;
+	}
+
+	/** Site facts of the projects/spaces the scope may see. */
+	factsFor(scope?: AccessScope): SiteFacts {
+		return scope ? scopeFacts(this.facts, scope) : this.facts;
+	}
+
+	/** Facts are only worth reading when a delegate exists and a template uses placeholders. */
+	get templated() {
+		const { search, fetch } = this.templates;
+		return Boolean(this.cfg.factsDelegate && placeholderNames(search + fetch).length);
+	}
+
+	async refresh(upstream: UpstreamCallable) {
+		const delegate = this.cfg.factsDelegate;
+		if (!delegate || !this.templated) return;
+		const startedAt = Date.now();
+		try {
+			this.facts = await delegate.collectFacts(toolCall(upstream));
+			this.rendered = this.render();
+			this.scoped.clear();
+			this.refreshedAt = new Date().toISOString();
+			log({
+				evt: 'descriptions_refreshed',
+				msg: 'site facts read',
+				shim: this.cfg.productKey,
+				durationMs: Date.now() - startedAt,
+				count: Object.values(this.facts).reduce((n, items) => n + items.length, 0),
+			});
+		} catch (e) {
+			// Keep the last facts; until the first refresh succeeds the examples stand in.
+			log({
+				evt: 'descriptions_refresh_error',
+				msg: 'site facts not read',
+				lvl: 'warn',
+				shim: this.cfg.productKey,
+				reason: e instanceof Error ? e.message : String(e),
+			});
+		}
+	}
+
+	private render(facts = this.facts): DescriptionTemplates {
+		const examples = this.cfg.factsDelegate?.examples ?? {};
+		return {
+			search: renderDescription(this.templates.search, facts, examples, this.opts),
+			fetch: renderDescription(this.templates.fetch, facts, examples, this.opts),
+		};
+	}
+}
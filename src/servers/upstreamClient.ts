@@ -1,7 +1,18 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SpanKind } from '@opentelemetry/api';
 import { log } from '../log.js';
+import { metrics } from '../metrics.js';
+import { traceCarrier, tracedFetch, withSpan } from '../tracing.js';
+import { ConcurrencyLimiter, UpstreamBusyError } from './rateLimit.js';
+import { replicaLabel, UpstreamReplica, UpstreamReplicas } from './upstreamReplicas.js';
+import { UpstreamToolCatalog } from './upstreamTools.js';
+import {
+	UpstreamAliases,
+	UpstreamClientStatus,
+	UpstreamConnectionState,
+} from '../types/upstream.js';
 import { VERSION } from '../version.js';
 
 interface TransportType {
@@ -16,13 +27,35 @@ export interface UpstreamRetryOptions {
 	baseDelayMs?: number;
 	maxDelayMs?: number;
 	jitterMs?: number;
+	/** How long a failed replica is skipped while another one is healthy. */
+	replicaCooldownMs?: number;
+	/** Replica health shared with other clients of the same upstream; built from the URLs otherwise. */
+	replicas?: UpstreamReplicas;
 	label?: string;
+	headers?: Record<string, string>;
+	/** Queue bounding concurrent upstream calls; rejects with UpstreamBusyError. */
+	limiter?: ConcurrencyLimiter;
+	/** Names tried when a called tool or argument is not in the upstream's `listTools`. */
+	aliases?: UpstreamAliases;
+	onTools?: (catalog: UpstreamToolCatalog) => void;
 }
 
+/**
+ * Reconnecting MCP client for one upstream or a list of replicas. Connect failures and
+ * repeated heartbeat failures put the replica in use on cooldown and move to the next one.
+ */
 export class UpstreamClient {
-	private readonly url: URL;
-	private readonly opts: Required<Omit<UpstreamRetryOptions, 'label'>> & { label?: string };
+	private readonly replicas: UpstreamReplicas;
+	private replica?: UpstreamReplica;
+	private readonly opts: Required<
+		Omit<
+			UpstreamRetryOptions,
+			'label' | 'headers' | 'limiter' | 'replicas' | 'aliases' | 'onTools'
+		>
+	> &
+		Pick<UpstreamRetryOptions, 'label' | 'headers' | 'limiter' | 'aliases' | 'onTools'>;
 	private client?: Client;
+	private catalog?: UpstreamToolCatalog;
 	private transport?: {
 		close?: () => Promise<void> | void;
 		onclose?: (() => void) | null;
@@ -31,37 +64,60 @@ export class UpstreamClient {
 	private closed = false;
 	private heartbeatTimer?: NodeJS.Timeout;
 	private consecutiveFailures = 0;
+	private state: UpstreamConnectionState = 'connecting';
+	private connectedAt?: number;
+	private lastHeartbeat?: UpstreamClientStatus['lastHeartbeat'];
+	private lastError?: UpstreamClientStatus['lastError'];
 	private attempt = 0;
 	private label?: string;
 
-	constructor(upstreamUrl: string, opts: UpstreamRetryOptions = {}) {
-		this.url = new URL(upstreamUrl);
+	constructor(upstreamUrls: string | string[], opts: UpstreamRetryOptions = {}) {
 		this.opts = {
 			heartbeatMs: 30_000,
 			maxConsecutiveHeartbeatFailures: 2,
 			baseDelayMs: 500,
 			maxDelayMs: 15_000,
 			jitterMs: 250,
+			replicaCooldownMs: 30_000,
 			...opts,
 		};
+		this.replicas =
+			opts.replicas ??
+			new UpstreamReplicas(
+				Array.isArray(upstreamUrls) ? upstreamUrls : [upstreamUrls],
+				this.opts.replicaCooldownMs,
+			);
 		this.label = opts.label;
 	}
 
 	async connect(): Promise<Client> {
 		if (this.client) return this.client;
 		while (!this.closed) {
+			const replica = this.replicas.pick();
+			this.state = 'connecting';
 			try {
-				this.logConnectAttempt();
+				this.logConnectAttempt(replica);
 				const client = new Client({ name: 'openai-shim-upstream', version: VERSION });
-				const transport = await this.createTransportAndConnect(client);
+				const transport = await this.createTransportAndConnect(client, replica.url);
 				this.setupTransportEvents(transport);
 				this.client = client;
+				this.replicas.markUp(replica);
+				this.useReplica(replica);
 				this.startHeartbeat();
 				this.attempt = 0;
+				this.state = 'connected';
+				this.connectedAt = Date.now();
 				this.logConnected(transport);
+				await this.discoverTools(client);
 				return client;
-			} catch {
+			} catch (e) {
+				const reason = e instanceof Error ? e.message : String(e);
+				this.recordError(`connect ${replicaLabel(replica)}: ${reason}`);
+				this.markReplicaDown(replica, reason);
+				// Another replica is healthy: fail over right away instead of backing off.
+				if (this.replicas.size > 1 && this.replicas.hasHealthy()) continue;
 				const delay = this.backoff();
+				this.state = 'backoff';
 				this.logBackoff(delay);
 				await this.sleep(delay);
 			}
@@ -69,23 +125,106 @@ export class UpstreamClient {
 		throw new Error('UpstreamClient closed');
 	}
 
-	private async createTransportAndConnect(client: Client) {
-		const urlStr = this.url.toString();
+	/** Lists the upstream tools so calls can be mapped onto the names and schemas it declares. */
+	private async discoverTools(client: Client) {
+		try {
+			const { tools } = await client.listTools();
+			this.catalog = new UpstreamToolCatalog(
+				tools,
+				this.opts.aliases ?? { tools: {}, arguments: {} },
+			);
+			this.opts.onTools?.(this.catalog);
+		} catch (e) {
+			log({
+				evt: 'upstream_list_tools_error',
+				msg: 'list_tools_error',
+				lvl: 'warn',
+				shim: this.label,
+				reason: e instanceof Error ? e.message : String(e),
+			});
+		}
+	}
+
+	/** The call with the tool name and arguments adapted to the listed schema, if any. */
+	private adapt(args: Parameters<Client['callTool']>[0]): Parameters<Client['callTool']>[0] {
+		const catalog = this.catalog;
+		if (!catalog) return args;
+		const name = catalog.resolveTool(args.name) ?? args.name;
+		const adapted = args.arguments ? catalog.adaptArguments(name, args.arguments) : undefined;
+		return { ...args, name, arguments: adapted?.arguments };
+	}
+
+	private recordError(message: string) {
+		this.lastError = { at: new Date().toISOString(), message };
+	}
+
+	status(): UpstreamClientStatus {
+		const replica = this.replica ?? this.replicas.pick();
+		return {
+			state: this.closed ? 'closed' : this.state,
+			upstreamUrl: replicaLabel(replica),
+			attempt: this.attempt,
+			connectedAt:
+				this.state === 'connected' && this.connectedAt
+					? new Date(this.connectedAt).toISOString()
+					: undefined,
+			lastHeartbeat: this.lastHeartbeat,
+			lastError: this.lastError,
+		};
+	}
+
+	private useReplica(replica: UpstreamReplica) {
+		const previous = this.replica;
+		this.replica = replica;
+		if (!previous || previous === replica) return;
+		metrics.upstreamFailovers.inc({ product: this.product });
+		log({
+			evt: 'upstream_failover',
+			msg: 'failover',
+			lvl: 'warn',
+			shim: this.label,
+			upstreamUrl: replicaLabel(replica),
+			reason: `from ${replicaLabel(previous)}`,
+		});
+	}
+
+	private markReplicaDown(replica: UpstreamReplica, reason: string) {
+		// A single upstream has nowhere to fail over to; the connect backoff applies instead.
+		if (this.replicas.size === 1) return;
+		const cooldown = this.replicas.markDown(replica);
+		log({
+			evt: 'upstream_replica_down',
+			msg: 'replica_down',
+			lvl: 'warn',
+			shim: this.label,
+			upstreamUrl: replicaLabel(replica),
+			delayMs: cooldown,
+			reason,
+		});
+	}
+
+	private transportOptions() {
+		const requestInit = this.opts.headers ? { headers: this.opts.headers } : undefined;
+		return { requestInit, fetch: tracedFetch };
+	}
+
+	private async createTransportAndConnect(client: Client, url: URL) {
+		const urlStr = url.toString();
 		if (urlStr.endsWith('/mcp') || urlStr.endsWith('.mcp')) {
-			const transport = new StreamableHTTPClientTransport(new URL(this.url));
+			const transport = new StreamableHTTPClientTransport(url, this.transportOptions());
 			await client.connect(transport);
 			return transport;
 		} else if (urlStr.endsWith('/sse') || urlStr.endsWith('.sse')) {
-			const transport = new SSEClientTransport(new URL(this.url));
+			const transport = new SSEClientTransport(url, this.transportOptions());
 			await client.connect(transport);
 			return transport;
 		} else {
 			try {
-				const transport = new StreamableHTTPClientTransport(new URL(this.url));
+				const transport = new StreamableHTTPClientTransport(url, this.transportOptions());
 				await client.connect(transport);
 				return transport;
 			} catch {
-				const transport = new SSEClientTransport(new URL(this.url));
+				const transport = new SSEClientTransport(url, this.transportOptions());
 				await client.connect(transport);
 				return transport;
 			}
@@ -95,31 +234,48 @@ export class UpstreamClient {
 	private setupTransportEvents(transport: TransportType) {
 		this.transport = transport;
 		if (this.transport) {
-			this.transport.onclose = () => this.scheduleReconnect(true);
-			this.transport.onerror = () => this.scheduleReconnect(true);
+			this.transport.onclose = () => {
+				if (this.closed) return;
+				this.recordError('transport closed');
+				this.scheduleReconnect(true);
+			};
+			this.transport.onerror = err => {
+				if (this.closed) return;
+				this.recordError(`transport error: ${err.message}`);
+				this.scheduleReconnect(true);
+			};
 		}
 	}
 
-	private logConnectAttempt() {
+	private get product() {
+		return this.label ?? 'upstream';
+	}
+
+	private logConnectAttempt(replica: UpstreamReplica) {
+		metrics.upstreamConnectAttempts.inc({ product: this.product });
 		log({
 			evt: 'upstream_connect_attempt',
 			msg: 'attempt',
 			shim: this.label,
+			upstreamUrl: replicaLabel(replica),
 			attempt: this.attempt,
 		});
 	}
 
 	private logConnected(transport: TransportType) {
 		const name = transport?.constructor?.name;
+		metrics.upstreamConnects.inc({ product: this.product, transport: name ?? 'unknown' });
 		log({
 			evt: 'upstream_connected',
 			msg: 'connected',
 			shim: this.label,
+			upstreamUrl: this.replica ? replicaLabel(this.replica) : undefined,
 			transport: name,
 		});
 	}
 
 	private logBackoff(delay: number) {
+		metrics.upstreamBackoff.observe({ product: this.product }, delay / 1000);
 		log({
 			evt: 'upstream_backoff',
 			msg: 'backoff',
@@ -129,6 +285,22 @@ export class UpstreamClient {
 		});
 	}
 
+	/**
+	 * Drops the connection and connects again, e.g. after the upstream was redeployed. False when
+	 * not connected, since a connect loop is already running.
+	 */
+	reconnect(reason: string) {
+		if (this.closed || !this.client) return false;
+		log({
+			evt: 'upstream_reconnect_forced',
+			msg: 'forced reconnect',
+			shim: this.label,
+			reason,
+		});
+		this.scheduleReconnect();
+		return true;
+	}
+
 	private reconnecting = false;
 	private scheduleReconnect(fromEvent = false) {
 		if (this.closed) return;
@@ -136,6 +308,7 @@ export class UpstreamClient {
 		this.reconnecting = true;
 		this.stopHeartbeat();
 		this.client = undefined;
+		this.state = 'connecting';
 		const t = this.transport;
 		if (t) {
 			t.onclose = null;
@@ -149,6 +322,7 @@ export class UpstreamClient {
 			}
 		}
 		this.transport = null;
+		metrics.upstreamReconnects.inc({ product: this.product });
 		log({ evt: 'upstream_reconnect', msg: 'reconnect', shim: this.label });
 		void this.connect().finally(() => {
 			this.reconnecting = false;
@@ -166,20 +340,25 @@ export class UpstreamClient {
 					| Record<string, unknown>;
 				const maybePing = possible.ping;
 				if (typeof maybePing === 'function') {
-					await maybePing();
+					await maybePing.call(this.client);
 				} else if (typeof this.client.listTools === 'function') {
 					await this.client.listTools();
 				} else if (typeof this.client.listResources === 'function') {
 					await this.client.listResources();
 				}
 				this.consecutiveFailures = 0;
-			} catch {
+				this.lastHeartbeat = { at: new Date().toISOString(), ok: true };
+			} catch (e) {
+				this.lastHeartbeat = { at: new Date().toISOString(), ok: false };
+				this.recordError(`heartbeat: ${e instanceof Error ? e.message : String(e)}`);
 				if (++this.consecutiveFailures >= maxConsecutiveHeartbeatFailures) {
+					metrics.upstreamHeartbeatFailures.inc({ product: this.product });
 					log({
 						evt: 'upstream_heartbeat_fail',
 						msg: 'heartbeat_fail',
 						shim: this.label,
 					});
+					if (this.replica) this.markReplicaDown(this.replica, 'heartbeat');
 					this.scheduleReconnect();
 				}
 			}
@@ -204,16 +383,31 @@ export class UpstreamClient {
 		return new Promise(res => setTimeout(res, ms));
 	}
 
-	async callTool(args: Parameters<Client['callTool']>[0]) {
-		const c = await this.connect();
-		try {
-			return await c.callTool(args);
-		} catch {
-			log({ evt: 'upstream_call_error', msg: 'call_error', shim: this.label });
-			this.scheduleReconnect();
-			const c2 = await this.connect();
-			return await c2.callTool(args);
-		}
+	/** Calls an upstream tool in a client span whose trace context is sent in `_meta`. */
+	callTool(args: Parameters<Client['callTool']>[0]) {
+		const attributes = { 'shim.product': this.product, 'mcp.tool.name': args.name };
+		return withSpan(`upstream ${args.name}`, SpanKind.CLIENT, attributes, async () => {
+			const traced = { ...args, _meta: { ...args._meta, ...traceCarrier() } };
+			// The concurrency slot is taken once connected: calls waiting out a reconnect backoff
+			// must not hold slots that calls through connected clients could use.
+			const send = (c: Client) => {
+				const call = () => c.callTool(this.adapt(traced));
+				return this.opts.limiter ? this.opts.limiter.run(call) : call();
+			};
+			const c = await this.connect();
+			try {
+				return await send(c);
+			} catch (e) {
+				if (e instanceof UpstreamBusyError) throw e;
+				this.recordError(
+					`call ${args.name}: ${e instanceof Error ? e.message : String(e)}`,
+				);
+				metrics.upstreamCallErrors.inc({ product: this.product });
+				log({ evt: 'upstream_call_error', msg: 'call_error', shim: this.label });
+				this.scheduleReconnect();
+				return await send(await this.connect());
+			}
+		});
 	}
 
 	async close() {
@@ -233,8 +427,9 @@ export class UpstreamClient {
 	}
 }
 
-export async function createUpstreamClient(upstreamUrl: string, opts?: UpstreamRetryOptions) {
-	const u = new UpstreamClient(upstreamUrl, {
+/** Client with the production retry defaults; not connected yet. */
+export function newUpstreamClient(upstreamUrls: string | string[], opts?: UpstreamRetryOptions) {
+	return new UpstreamClient(upstreamUrls, {
 		heartbeatMs: 45_000,
 		maxConsecutiveHeartbeatFailures: 2,
 		baseDelayMs: 500,
@@ -242,6 +437,13 @@ export async function createUpstreamClient(upstreamUrl: string, opts?: UpstreamR
 		jitterMs: 300,
 		...opts,
 	});
+}
+
+export async function createUpstreamClient(
+	upstreamUrls: string | string[],
+	opts?: UpstreamRetryOptions,
+) {
+	const u = newUpstreamClient(upstreamUrls, opts);
 	await u.connect();
 	return u;
 }
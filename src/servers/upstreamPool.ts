@@ -0,0 +1,221 @@
+import { log } from '../log.js';
+import { metrics } from '../metrics.js';
+import { UpstreamAliases, UpstreamClientStatus, UpstreamCredential } from '../types/upstream.js';
+import { ConcurrencyLimiter } from './rateLimit.js';
+import { newUpstreamClient, UpstreamCallable, UpstreamClient } from './upstreamClient.js';
+import { UpstreamReplicas } from './upstreamReplicas.js';
+import { UpstreamToolCatalog } from './upstreamTools.js';
+
+export interface UpstreamPoolOptions {
+	/** Replica URLs in preference order. */
+	urls: string[];
+	label: string;
+	idleMs: number;
+	maxClients: number;
+	replicaCooldownMs: number;
+	limiter?: ConcurrencyLimiter;
+	aliases?: UpstreamAliases;
+	/** Called with the tools listed by each client after it (re)connects. */
+	onTools?: (catalog: UpstreamToolCatalog) => void;
+}
+
+export interface UpstreamLease {
+	upstream: UpstreamCallable;
+	/** Pool key of the credential; `shared` for the service-account client. */
+	key: string;
+	release: () => void;
+}
+
+interface PoolEntry {
+	key: string;
+	headers?: Record<string, string>;
+	/** Set as soon as connecting starts, so `status()` sees clients stuck in backoff. */
+	client?: UpstreamClient;
+	pending?: Promise<UpstreamCallable>;
+	refs: number;
+	lastUsed: number;
+	idleTimer?: NodeJS.Timeout;
+}
+
+const SHARED_KEY = 'shared';
+
+export interface PooledClientStatus extends UpstreamClientStatus {
+	key: string;
+	/** Sessions holding the client. */
+	refs: number;
+}
+
+/**
+ * Upstream clients keyed by credential. Each entry is connected lazily, reference counted by
+ * the sessions using it and closed after `idleMs` without references.
+ */
+export class UpstreamPool {
+	private readonly entries = new Map<string, PoolEntry>();
+	// Shared so a replica found down by one client is skipped by the others.
+	private readonly replicas: UpstreamReplicas;
+
+	constructor(private readonly opts: UpstreamPoolOptions) {
+		this.replicas = new UpstreamReplicas(opts.urls, opts.replicaCooldownMs);
+	}
+
+	get size() {
+		return this.entries.size;
+	}
+
+	async acquire(credential?: UpstreamCredential): Promise<UpstreamLease> {
+		const key = credential?.key ?? SHARED_KEY;
+		let entry = this.entries.get(key);
+		const added = !entry;
+		if (!entry) {
+			entry = { key, headers: credential?.headers, refs: 0, lastUsed: Date.now() };
+			this.entries.set(key, entry);
+		}
+		// Referenced before evicting so the entry being acquired is never the one dropped.
+		entry.refs++;
+		entry.lastUsed = Date.now();
+		this.cancelIdle(entry);
+		if (added) this.evictOverflow();
+		try {
+			const upstream = await this.connect(entry);
+			let released = false;
+			return {
+				upstream,
+				key,
+				release: () => {
+					if (released) return;
+					released = true;
+					this.release(entry);
+				},
+			};
+		} catch (e) {
+			this.release(entry);
+			throw e;
+		}
+	}
+
+	status(): PooledClientStatus[] {
+		return [...this.entries.values()].flatMap(e =>
+			e.client ? [{ key: e.key, refs: e.refs, ...e.client.status() }] : [],
+		);
+	}
+
+	/** Forces every connected client to reconnect; returns how many did. */
+	reconnectAll(reason: string) {
+		return [...this.entries.values()].filter(e => e.client?.reconnect(reason)).length;
+	}
+
+	async closeAll() {
+		const entries = [...this.entries.values()];
+		this.entries.clear();
+		this.reportSize();
+		await Promise.all(entries.map(e => this.closeEntry(e)));
+	}
+
+	private reportSize() {
+		metrics.upstreamClients.set({ product: this.opts.label }, this.entries.size);
+	}
+
+	private async connect(entry: PoolEntry): Promise<UpstreamCallable> {
+		if (entry.client && !entry.pending) return entry.client;
+		if (!entry.client) {
+			const client = newUpstreamClient(this.opts.urls, {
+				label: this.opts.label,
+				headers: entry.headers,
+				limiter: this.opts.limiter,
+				replicas: this.replicas,
+				aliases: this.opts.aliases,
+				onTools: this.opts.onTools,
+			});
+			entry.client = client;
+			entry.pending = client
+				.connect()
+				.then(() => {
+					this.reportSize();
+					log({
+						evt: 'upstream_pool_add',
+						msg: 'pool_add',
+						shim: this.opts.label,
+						poolKey: entry.key,
+						poolSize: this.entries.size,
+					});
+					// The entry may have been evicted or closed while connecting.
+					if (this.entries.get(entry.key) !== entry) void client.close();
+					return client;
+				})
+				.finally(() => {
+					entry.pending = undefined;
+				});
+		}
+		return entry.pending ?? entry.client;
+	}
+
+	private release(entry: PoolEntry) {
+		entry.refs = Math.max(0, entry.refs - 1);
+		entry.lastUsed = Date.now();
+		if (entry.refs > 0) return;
+		this.scheduleIdle(entry);
+		// Shrink a pool that overflowed while every client was leased.
+		this.evictOverflow();
+	}
+
+	private cancelIdle(entry: PoolEntry) {
+		if (entry.idleTimer) {
+			clearTimeout(entry.idleTimer);
+			entry.idleTimer = undefined;
+		}
+	}
+
+	private scheduleIdle(entry: PoolEntry) {
+		if (entry.idleTimer) return;
+		entry.idleTimer = setTimeout(() => {
+			entry.idleTimer = undefined;
+			if (entry.refs > 0 || this.entries.get(entry.key) !== entry) return;
+			this.entries.delete(entry.key);
+			void this.closeEntry(entry);
+			this.reportSize();
+			log({
+				evt: 'upstream_idle_close',
+				msg: 'idle_close',
+				shim: this.opts.label,
+				poolKey: entry.key,
+				durationMs: this.opts.idleMs,
+			});
+		}, this.opts.idleMs);
+		entry.idleTimer.unref?.();
+	}
+
+	/**
+	 * Drops least recently used unreferenced clients once the pool exceeds `maxClients`. Leased
+	 * clients are never dropped: with all of them leased the pool stays over the limit until
+	 * leases are released.
+	 */
+	private evictOverflow() {
+		if (this.entries.size <= this.opts.maxClients) return;
+		const idle = [...this.entries.values()]
+			.filter(e => e.refs === 0)
+			.sort((a, b) => a.lastUsed - b.lastUsed);
+		for (const entry of idle) {
+			if (this.entries.size <= this.opts.maxClients) break;
+			this.entries.delete(entry.key);
+			void this.closeEntry(entry);
+			this.reportSize();
+			log({
+				evt: 'upstream_pool_evict',
+				msg: 'pool_evict',
+				shim: this.opts.label,
+				poolKey: entry.key,
+			});
+		}
+	}
+
+	private async closeEntry(entry: PoolEntry) {
+		this.cancelIdle(entry);
+		try {
+			await entry.client?.close();
+		} catch {
+			void 0;
+		} finally {
+			entry.client = undefined;
+		}
+	}
+}
@@ -0,0 +1,86 @@
+export interface UpstreamReplica {
+	url: URL;
+	/** Position in the configured list; lower replicas are preferred. */
+	index: number;
+	failures: number;
+	/** Epoch ms before which the replica is skipped while a healthy one remains. */
+	downUntil: number;
+}
+
+/** Parses a comma- or whitespace-separated list of upstream MCP URLs. */
+export function parseUpstreamUrls(value: string | undefined): string[] {
+	const urls = (value || '')
+		.split(/[\s,]+/)
+		.map(s => s.trim())
+		.filter(Boolean);
+	for (const url of urls) {
+		try {
+			new URL(url);
+		} catch {
+			throw new Error(`invalid upstream URL: ${url}`);
+		}
+	}
+	return urls;
+}
+
+/** `<PRODUCT>_UPSTREAM_MCP_URL`, e.g. `JIRA_UPSTREAM_MCP_URL` or `JSM_UPSTREAM_MCP_URL`. */
+export function readProductUpstreamUrls(
+	productKey: string,
+	env: NodeJS.ProcessEnv = process.env,
+): string[] {
+	const name = `${productKey.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_UPSTREAM_MCP_URL`;
+	return parseUpstreamUrls(env[name]);
+}
+
+/** Replica URL for logs, without credentials or query string. */
+export const replicaLabel = (r: UpstreamReplica) => `${r.url.origin}${r.url.pathname}`;
+
+/**
+ * Upstream replicas in preference order. A replica that fails to connect or keeps failing
+ * heartbeats cools down for `cooldownMs` (doubling per consecutive failure, up to 10x) and is
+ * skipped while another replica is healthy.
+ */
+export class UpstreamReplicas {
+	private readonly replicas: UpstreamReplica[];
+
+	constructor(
+		urls: string[],
+		private readonly cooldownMs: number,
+	) {
+		if (!urls.length) throw new Error('at least one upstream URL is required');
+		this.replicas = urls.map((u, index) => ({
+			url: new URL(u),
+			index,
+			failures: 0,
+			downUntil: 0,
+		}));
+	}
+
+	get size() {
+		return this.replicas.length;
+	}
+
+	/** First healthy replica in order; when all are cooling down, the one recovering soonest. */
+	pick(now = Date.now()): UpstreamReplica {
+		const healthy = this.replicas.find(r => r.downUntil <= now);
+		if (healthy) return healthy;
+		return this.replicas.reduce((a, b) => (b.downUntil < a.downUntil ? b : a));
+	}
+
+	hasHealthy(now = Date.now()): boolean {
+		return this.replicas.some(r => r.downUntil <= now);
+	}
+
+	markUp(replica: UpstreamReplica) {
+		replica.failures = 0;
+		replica.downUntil = 0;
+	}
+
+	/** Starts the replica's cooldown; returns its length in ms. */
+	markDown(replica: UpstreamReplica, now = Date.now()): number {
+		const factor = Math.min(10, 2 ** replica.failures++);
+		const cooldown = this.cooldownMs * factor;
+		replica.downUntil = now + cooldown;
+		return cooldown;
+	}
+}
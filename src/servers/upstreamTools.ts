@@ -0,0 +1,181 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { log } from '../log.js';
+import { JsonObject } from '../types/json.js';
+import { ProductShimConfig } from '../types/shim.js';
+import { UpstreamAliases } from '../types/upstream.js';
+
+export interface AdaptedArguments<T> {
+	arguments: Record<string, T>;
+	/** `from->to` pairs renamed through argument aliases. */
+	renamed: string[];
+	/** Arguments the upstream schema does not declare. */
+	dropped: string[];
+}
+
+export interface UpstreamToolReport {
+	/** Tool name the shim is configured with. */
+	tool: string;
+	/** Name called upstream; differs from `tool` when an alias matched, unset when missing. */
+	resolved?: string;
+	missing: boolean;
+	renamed: string[];
+	dropped: string[];
+	/** Required upstream arguments the shim does not send. */
+	missingRequired: string[];
+}
+
+export interface UpstreamToolsStatus {
+	checkedAt: string;
+	/** Every configured tool exists and accepts the shim's required arguments. */
+	ok: boolean;
+	available: string[];
+	tools: UpstreamToolReport[];
+}
+
+/** Parses `name=alias1|alias2,other=alias` into a map of names to their aliases. */
+export function parseAliases(value: string | undefined): Record<string, string[]> {
+	const out: Record<string, string[]> = {};
+	for (const entry of (value || '').split(',')) {
+		const [name, aliases] = entry.split('=').map(s => s?.trim());
+		if (!name || !aliases) continue;
+		out[name] = aliases
+			.split('|')
+			.map(a => a.trim())
+			.filter(Boolean);
+	}
+	return out;
+}
+
+export function readUpstreamAliases(env: NodeJS.ProcessEnv = process.env): UpstreamAliases {
+	return {
+		tools: parseAliases(env.UPSTREAM_TOOL_ALIASES),
+		arguments: parseAliases(env.UPSTREAM_ARG_ALIASES),
+	};
+}
+
+/** Product aliases extend (and for the same name replace) the process-wide ones. */
+export function mergeAliases(
+	base: UpstreamAliases,
+	own?: Partial<UpstreamAliases>,
+): UpstreamAliases {
+	return {
+		tools: { ...base.tools, ...own?.tools },
+		arguments: { ...base.arguments, ...own?.arguments },
+	};
+}
+
+/** Tools listed by a connected upstream, used to map the shim's tool and argument names onto it. */
+export class UpstreamToolCatalog {
+	private readonly tools = new Map<string, Tool>();
+
+	constructor(
+		tools: Tool[],
+		private readonly aliases: UpstreamAliases,
+	) {
+		for (const t of tools) this.tools.set(t.name, t);
+	}
+
+	get names(): string[] {
+		return [...this.tools.keys()].sort();
+	}
+
+	/** The tool itself when listed, else its first listed alias; undefined when neither is. */
+	resolveTool(name: string): string | undefined {
+		if (this.tools.has(name)) return name;
+		return this.aliases.tools[name]?.find(a => this.tools.has(a));
+	}
+
+	/**
+	 * Renames arguments the schema does not declare to a declared alias and drops the rest.
+	 * Schemas without `properties` or with `additionalProperties: true` keep everything.
+	 */
+	adaptArguments<T>(tool: string, args: Record<string, T>): AdaptedArguments<T> {
+		const schema = this.tools.get(tool)?.inputSchema;
+		const declared = schema?.properties ? new Set(Object.keys(schema.properties)) : undefined;
+		if (!declared || schema?.['additionalProperties'] === true)
+			return { arguments: args, renamed: [], dropped: [] };
+		const out: Record<string, T> = {};
+		const renamed: string[] = [];
+		const dropped: string[] = [];
+		for (const [key, value] of Object.entries(args)) {
+			if (declared.has(key)) {
+				out[key] = value;
+				continue;
+			}
+			const alias = this.aliases.arguments[key]?.find(a => declared.has(a) && !(a in args));
+			if (alias) {
+				out[alias] = value;
+				renamed.push(`${key}->${alias}`);
+			} else dropped.push(key);
+		}
+		return { arguments: out, renamed, dropped };
+	}
+
+	private report(tool: string, sample: JsonObject): UpstreamToolReport {
+		const resolved = this.resolveTool(tool);
+		if (!resolved)
+			return { tool, missing: true, renamed: [], dropped: [], missingRequired: [] };
+		const adapted = this.adaptArguments(resolved, sample);
+		const required = this.tools.get(resolved)?.inputSchema.required ?? [];
+		return {
+			tool,
+			resolved,
+			missing: false,
+			renamed: adapted.renamed,
+			dropped: adapted.dropped,
+			missingRequired: required.filter(r => !(r in adapted.arguments)),
+		};
+	}
+
+	/** Checks the product's search and fetch tools against arguments its delegates build. */
+	check(cfg: ProductShimConfig): UpstreamToolsStatus {
+		const tools: UpstreamToolReport[] = [
+			this.report(
+				cfg.upstreamSearchTool,
+				cfg.searchDelegate.prepareSearchArguments('status', { startAt: 0, limit: 20 }),
+			),
+			this.report(cfg.upstreamFetchTool, cfg.fetchDelegate.prepareFetchArguments('PROBE-1')),
+		];
+		return {
+			checkedAt: new Date().toISOString(),
+			ok: tools.every(t => !t.missing && !t.missingRequired.length),
+			available: this.names,
+			tools,
+		};
+	}
+}
+
+export function logToolsStatus(product: string, status: UpstreamToolsStatus) {
+	const missing = status.tools.filter(t => t.missing).map(t => t.tool);
+	if (missing.length)
+		log({
+			evt: 'upstream_tools_missing',
+			msg: `upstream does not list ${missing.join(', ')}`,
+			lvl: 'error',
+			shim: product,
+			tools: status.available,
+		});
+	for (const t of status.tools) {
+		if (t.missing) continue;
+		const notes = [
+			t.resolved !== t.tool ? `called as ${t.resolved}` : '',
+			t.renamed.length ? `renamed ${t.renamed.join(', ')}` : '',
+			t.dropped.length ? `dropped ${t.dropped.join(', ')}` : '',
+			t.missingRequired.length ? `missing required ${t.missingRequired.join(', ')}` : '',
+		].filter(Boolean);
+		if (notes.length)
+			log({
+				evt: 'upstream_tool_adapted',
+				msg: `${t.tool}: ${notes.join('; ')}`,
+				lvl: t.missingRequired.length ? 'error' : 'warn',
+				shim: product,
+			});
+	}
+	if (status.ok)
+		log({
+			evt: 'upstream_tools_ok',
+			msg: 'tools validated',
+			shim: product,
+			count: status.available.length,
+		});
+}
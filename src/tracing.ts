@@ -0,0 +1,196 @@
+import {
+	Attributes,
+	context,
+	propagation,
+	Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+} from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+	ExportResult,
+	ExportResultCode,
+	hrTimeToMilliseconds,
+	W3CTraceContextPropagator,
+} from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+	BasicTracerProvider,
+	BatchSpanProcessor,
+	ConsoleSpanExporter,
+	ReadableSpan,
+	SimpleSpanProcessor,
+	SpanExporter,
+	SpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { NextFunction, Request, Response } from 'express';
+import { appendFile } from 'fs/promises';
+import { log } from './log.js';
+import { VERSION } from './version.js';
+
+export type TraceExporterKind = 'none' | 'otlp' | 'file' | 'console';
+
+export interface TracingOptions {
+	exporter: TraceExporterKind;
+	serviceName: string;
+	/** OTLP/HTTP traces endpoint; the exporter falls back to the standard OTEL_EXPORTER_OTLP_* env. */
+	endpoint?: string;
+	/** JSONL file written by the `file` exporter. */
+	file: string;
+}
+
+export interface TracingHandle {
+	shutdown: () => Promise<void>;
+}
+
+const EXPORTERS: readonly TraceExporterKind[] = ['none', 'otlp', 'file', 'console'];
+
+export const tracer = trace.getTracer('mcp-openai-atlassian-proxy', VERSION);
+
+export function readTracingOptions(env: NodeJS.ProcessEnv = process.env): TracingOptions {
+	const exporter = (env.OTEL_TRACES_EXPORTER || 'none').trim().toLowerCase();
+	if (!EXPORTERS.includes(exporter as TraceExporterKind))
+		throw new Error(`OTEL_TRACES_EXPORTER must be one of ${EXPORTERS.join(', ')}`);
+	return {
+		exporter: exporter as TraceExporterKind,
+		serviceName: env.OTEL_SERVICE_NAME || 'mcp-openai-atlassian-proxy',
+		endpoint: env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || undefined,
+		file: env.OTEL_TRACES_FILE || 'traces.jsonl',
+	};
+}
+
+/** Appends finished spans to a JSONL file for offline debugging. */
+class FileSpanExporter implements SpanExporter {
+	constructor(private readonly file: string) {}
+
+	export(spans: ReadableSpan[], done: (result: ExportResult) => void) {
+		const lines = spans.map(s => {
+			const { traceId, spanId } = s.spanContext();
+			return JSON.stringify({
+				traceId,
+				spanId,
+				parentSpanId: s.parentSpanContext?.spanId,
+				name: s.name,
+				kind: SpanKind[s.kind],
+				start: new Date(hrTimeToMilliseconds(s.startTime)).toISOString(),
+				durationMs: hrTimeToMilliseconds(s.duration),
+				status: s.status,
+				attributes: s.attributes,
+				events: s.events.map(e => ({ name: e.name, attributes: e.attributes })),
+			});
+		});
+		appendFile(this.file, lines.join('\n') + '\n').then(
+			() => done({ code: ExportResultCode.SUCCESS }),
+			error => done({ code: ExportResultCode.FAILED, error }),
+		);
+	}
+
+	shutdown() {
+		return Promise.resolve();
+	}
+}
+
+function spanProcessor(opts: TracingOptions): SpanProcessor {
+	switch (opts.exporter) {
+		case 'file':
+			return new SimpleSpanProcessor(new FileSpanExporter(opts.file));
+		case 'console':
+			return new SimpleSpanProcessor(new ConsoleSpanExporter());
+		default:
+			return new BatchSpanProcessor(
+				new OTLPTraceExporter(opts.endpoint ? { url: opts.endpoint } : {}),
+			);
+	}
+}
+
+/** Registers the global tracer provider, or returns undefined when tracing is disabled. */
+export function initTracing(
+	opts: TracingOptions = readTracingOptions(),
+): TracingHandle | undefined {
+	if (opts.exporter === 'none') return undefined;
+	const provider = new BasicTracerProvider({
+		resource: resourceFromAttributes({
+			'service.name': opts.serviceName,
+			'service.version': VERSION,
+		}),
+		spanProcessors: [spanProcessor(opts)],
+	});
+	context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+	propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+	trace.setGlobalTracerProvider(provider);
+	log({
+		evt: 'tracing_enabled',
+		msg: 'tracing',
+		exporter: opts.exporter,
+		file: opts.exporter === 'file' ? opts.file : undefined,
+	});
+	return { shutdown: () => provider.shutdown() };
+}
+
+/** Runs `fn` in a new active span, recording thrown errors and ending the span afterwards. */
+export function withSpan<T>(
+	name: string,
+	kind: SpanKind,
+	attributes: Attributes,
+	fn: (span: Span) => Promise<T>,
+): Promise<T> {
+	return tracer.startActiveSpan(name, { kind, attributes }, async span => {
+		try {
+			return await fn(span);
+		} catch (e) {
+			span.recordException(e instanceof Error ? e : String(e));
+			span.setStatus({ code: SpanStatusCode.ERROR, message: String(e) });
+			throw e;
+		} finally {
+			span.end();
+		}
+	});
+}
+
+/** `traceparent` / `tracestate` of the active span, for MCP `_meta` and HTTP headers. */
+export function traceCarrier(): Record<string, string> {
+	const carrier: Record<string, string> = {};
+	propagation.inject(context.active(), carrier);
+	return carrier;
+}
+
+/** `fetch` for upstream transports that adds the active trace context to request headers. */
+export function tracedFetch(url: string | URL, init?: RequestInit) {
+	const headers = new Headers(init?.headers);
+	for (const [k, v] of Object.entries(traceCarrier())) headers.set(k, v);
+	return fetch(url, { ...init, headers });
+}
+
+/**
+ * Express middleware opening a server span per incoming MCP request, continuing the trace of an
+ * incoming `traceparent` header. Long-lived SSE streams (GET) are not traced.
+ */
+export function traceMcpRequests(product: string) {
+	return (req: Request, res: Response, next: NextFunction) => {
+		if (req.method === 'GET') return next();
+		const parent = propagation.extract(context.active(), req.headers);
+		const rpcMethod = typeof req.body?.method === 'string' ? req.body.method : undefined;
+		const span = tracer.startSpan(
+			`mcp ${rpcMethod ?? req.method}`,
+			{
+				kind: SpanKind.SERVER,
+				attributes: {
+					'http.request.method': req.method,
+					'url.path': req.originalUrl.split('?')[0],
+					'mcp.method.name': rpcMethod,
+					'mcp.session.id': req.headers['mcp-session-id']?.toString(),
+					'shim.product': product,
+				},
+			},
+			parent,
+		);
+		res.on('close', () => {
+			span.setAttribute('http.response.status_code', res.statusCode);
+			if (res.statusCode >= 500) span.setStatus({ code: SpanStatusCode.ERROR });
+			span.end();
+		});
+		context.with(trace.setSpan(parent, span), next);
+	};
+}
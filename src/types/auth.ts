@@ -0,0 +1,17 @@
+export interface ApiKeyEntry {
+	name: string;
+	digest: Buffer;
+}
+
+export interface OAuthConfig {
+	issuer: string;
+	jwksUrl?: string;
+	audience: string[];
+	requiredScopes: string[];
+}
+
+export interface AuthConfig {
+	apiKeys: ApiKeyEntry[];
+	oauth?: OAuthConfig;
+	publicUrl?: string;
+}
@@ -1,15 +1,29 @@
 import { JsonObject, JsonValue } from './json.js';
-import { FetchedDocument, SearchResults } from './tools.js';
+import { UpstreamAliases } from './upstream.js';
+import { FetchedDocument, SearchPage, SearchResultItem, SearchResults } from './tools.js';
 
 export interface ShimOptions {
 	port: number;
-	upstreamUrl: string;
+	/** Upstream replica URLs in preference order. */
+	upstreamUrls: string[];
 	publicPrefix?: string;
 }
 
 export interface SearchDelegate {
-	prepareSearchArguments(query: string): JsonObject;
-	mapSearchResults(rawResults: JsonValue): SearchResults;
+	/** Upper bound on `startAt + limit` the upstream can serve; paging stops there. */
+	maxResults?: number;
+	/** False when the upstream arguments ignore the page offset; only the first page is served. */
+	paged?: boolean;
+	/** `facts` are the site facts the session's access scope may see. */
+	prepareSearchArguments(query: string, page: SearchPage, facts?: SiteFacts): JsonObject;
+	/**
+	 * Arguments for another attempt after the upstream tool rejected `args` with an error result,
+	 * or undefined to give up. Attempts chain until this returns undefined; exceptions (busy,
+	 * timeouts, transport failures) are never retried.
+	 */
+	fallbackSearchArguments?(args: JsonObject, page: SearchPage): JsonObject | undefined;
+	/** `args` are the upstream arguments of the attempt that produced `rawResults`. */
+	mapSearchResults(rawResults: JsonValue, page: SearchPage, args: JsonObject): SearchResults;
 }
 
 export interface FetchDelegate {
@@ -17,6 +31,66 @@ export interface FetchDelegate {
 	mapFetchResults(rawResults: JsonValue): FetchedDocument;
 }
 
+/** Allowed and denied project/space keys; a missing list does not restrict. */
+export interface AccessScope {
+	allow?: string[];
+	deny?: string[];
+}
+
+/** Applies an access scope to a product's queries and documents. */
+export interface AccessDelegate {
+	/** Container noun used in refusals, e.g. `project` or `space`. */
+	containerLabel: string;
+	/** Search arguments with the scope ANDed into the upstream query. */
+	constrainSearchArguments(args: JsonObject, scope: AccessScope): JsonObject;
+	/** Project/space key of a search result, when it can be told from the result. */
+	containerOfResult(item: SearchResultItem): string | undefined;
+	/** Project/space key implied by a fetch id alone (e.g. an issue key), checked before the call. */
+	containerOfId(id: string): string | undefined;
+	containerOfDocument(doc: FetchedDocument): string | undefined;
+}
+
+/** One listed fact with the projects/spaces it was seen in, so access scopes can filter it. */
+export interface SiteFact {
+	value: string;
+	containers: string[];
+}
+
+/** Named lists read from the upstream (project keys, components, spaces…) for descriptions. */
+export type SiteFacts = Record<string, SiteFact[]>;
+
+/** Calls an upstream tool and returns its parsed JSON result; throws on error results. */
+export type UpstreamToolCall = (tool: string, args: JsonObject) => Promise<JsonValue>;
+
+/** Collects the live facts a product's description templates refer to. */
+export interface FactsDelegate {
+	/** Used for `{{list.first}}` while a list is empty, e.g. `{ projectKeys: 'PROJ' }`. */
+	examples: Record<string, string>;
+	collectFacts(call: UpstreamToolCall): Promise<SiteFacts>;
+}
+
+export type RedactionDetector = 'secret' | 'card' | 'email' | 'phone';
+
+export interface RedactionRuleConfig {
+	name: string;
+	/** Regular expression source; a named `value` group redacts only that part of the match. */
+	pattern: string;
+	flags?: string;
+	/** Defaults to `[REDACTED:<name>]`. */
+	replacement?: string;
+}
+
+export interface ProductRedactionConfig {
+	/** Built-in detectors; replaces the process-wide `REDACT_DETECTORS` list. */
+	detectors?: RedactionDetector[];
+	rules?: RedactionRuleConfig[];
+}
+
+export interface ProductCacheConfig {
+	searchTtlMs?: number;
+	fetchTtlMs?: number;
+}
+
 export interface ProductShimConfig {
 	productKey: string;
 	serverName: string;
@@ -26,6 +100,16 @@ export interface ProductShimConfig {
 	defaultFetchDescription: string;
 	searchDelegate: SearchDelegate;
 	fetchDelegate: FetchDelegate;
+	/** Present when the product supports project/space access policies. */
+	accessDelegate?: AccessDelegate;
+	/** Present when the product's description templates can be filled from the upstream. */
+	factsDelegate?: FactsDelegate;
+	cache?: ProductCacheConfig;
+	redaction?: ProductRedactionConfig;
+	/** Fetched documents above this many tokens are returned in `ID#N` parts; 0 disables. */
+	fetchMaxTokens?: number;
+	/** Extends the process-wide `UPSTREAM_TOOL_ALIASES` / `UPSTREAM_ARG_ALIASES`. */
+	upstreamAliases?: Partial<UpstreamAliases>;
 }
 
-export type { FetchedDocument, SearchResults };
+export type { FetchedDocument, SearchPage, SearchResults };
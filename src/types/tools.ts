@@ -7,6 +7,17 @@ export interface SearchResultItem {
 }
 export interface SearchResults {
 	results: SearchResultItem[];
+	/** Total matches when the upstream reports it. */
+	total?: number;
+	/** Opaque token for the next page; pass it back as `cursor`. */
+	nextCursor?: string;
+	/** Query actually executed upstream (e.g. the generated JQL), so callers can refine it. */
+	query?: string;
+}
+
+export interface SearchPage {
+	startAt: number;
+	limit: number;
 }
 export interface FetchedDocument {
 	id: string;
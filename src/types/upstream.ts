@@ -0,0 +1,38 @@
+export type PassthroughMode = 'off' | 'header' | 'oauth';
+
+export interface UpstreamPoolConfig {
+	passthrough: PassthroughMode;
+	credentialHeader: string;
+	credentialScheme: string;
+	forwardHeaders: string[];
+	requireCredential: boolean;
+	maxClients: number;
+	idleMs: number;
+	/** How long an upstream replica that failed is skipped while another one is healthy. */
+	replicaCooldownMs: number;
+}
+
+/** Alternative upstream names, tried in order when the configured name is not listed. */
+export interface UpstreamAliases {
+	tools: Record<string, string[]>;
+	arguments: Record<string, string[]>;
+}
+
+export type UpstreamConnectionState = 'connecting' | 'connected' | 'backoff' | 'closed';
+
+/** Point-in-time view of one upstream client, served on `/status`. */
+export interface UpstreamClientStatus {
+	state: UpstreamConnectionState;
+	/** Replica in use or being tried. */
+	upstreamUrl?: string;
+	/** Consecutive failed connect attempts; 0 once connected. */
+	attempt: number;
+	connectedAt?: string;
+	lastHeartbeat?: { at: string; ok: boolean };
+	lastError?: { at: string; message: string };
+}
+
+export interface UpstreamCredential {
+	key: string;
+	headers: Record<string, string>;
+}
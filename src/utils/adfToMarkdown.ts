@@ -0,0 +1,209 @@
+import { JsonValue } from '../types/json.js';
+
+interface AdfNode {
+	type?: string;
+	text?: string;
+	attrs?: Record<string, JsonValue>;
+	marks?: { type?: string; attrs?: Record<string, JsonValue> }[];
+	content?: AdfNode[];
+}
+
+const PANEL_LABELS: Record<string, string> = {
+	info: 'Info',
+	note: 'Note',
+	warning: 'Warning',
+	error: 'Error',
+	success: 'Success',
+	tip: 'Tip',
+};
+
+const str = (v: JsonValue | undefined): string =>
+	v === undefined || v === null ? '' : typeof v === 'object' ? '' : String(v);
+
+export function isAdfDocument(value: JsonValue | undefined): boolean {
+	return (
+		!!value &&
+		typeof value === 'object' &&
+		!Array.isArray(value) &&
+		value['type'] === 'doc' &&
+		Array.isArray(value['content'])
+	);
+}
+
+function applyMarks(text: string, node: AdfNode): string {
+	let out = text;
+	let href = '';
+	for (const mark of node.marks ?? []) {
+		switch (mark.type) {
+			case 'code':
+				out = `\`${out}\``;
+				break;
+			case 'strong':
+				out = `**${out}**`;
+				break;
+			case 'em':
+				out = `_${out}_`;
+				break;
+			case 'strike':
+				out = `~~${out}~~`;
+				break;
+			case 'link':
+				href = str(mark.attrs?.['href']);
+				break;
+		}
+	}
+	return href ? `[${out}](${href})` : out;
+}
+
+function inline(nodes: AdfNode[] | undefined): string {
+	return (nodes ?? []).map(inlineNode).join('');
+}
+
+function inlineNode(node: AdfNode): string {
+	const attrs = node.attrs ?? {};
+	switch (node.type) {
+		case 'text':
+			return applyMarks(node.text ?? '', node);
+		case 'hardBreak':
+			return '  \n';
+		case 'mention': {
+			const name = str(attrs['text']) || str(attrs['id']);
+			return name.startsWith('@') ? name : `@${name}`;
+		}
+		case 'emoji':
+			return str(attrs['text']) || str(attrs['shortName']);
+		case 'inlineCard':
+			return str(attrs['url']) ? `<${str(attrs['url'])}>` : '';
+		case 'status':
+			return `[${str(attrs['text'])}]`;
+		case 'date': {
+			const ts = Number(attrs['timestamp']);
+			return Number.isFinite(ts) ? new Date(ts).toISOString().slice(0, 10) : '';
+		}
+		case 'mediaInline':
+		case 'media':
+			return mediaPlaceholder(node);
+		case 'placeholder':
+			return '';
+		default:
+			return node.content ? inline(node.content) : (node.text ?? '');
+	}
+}
+
+function mediaPlaceholder(node: AdfNode): string {
+	const attrs = node.attrs ?? {};
+	const name = str(attrs['alt']) || str(attrs['filename']) || str(attrs['id']) || 'file';
+	const url = str(attrs['url']);
+	return url ? `[attachment: ${name}](${url})` : `[attachment: ${name}]`;
+}
+
+function indent(text: string, prefix: string): string {
+	const pad = ' '.repeat(prefix.length);
+	return text
+		.split('\n')
+		.map((line, i) => (i === 0 ? prefix + line : line ? pad + line : line))
+		.join('\n');
+}
+
+function quote(text: string): string {
+	return text
+		.split('\n')
+		.map(line => (line ? `> ${line}` : '>'))
+		.join('\n');
+}
+
+function list(node: AdfNode, ordered: boolean): string {
+	const start = Number(node.attrs?.['order'] ?? 1) || 1;
+	return (node.content ?? [])
+		.map((item, i) =>
+			indent(blocks(item.content, '\n').trim(), ordered ? `${start + i}. ` : '- '),
+		)
+		.join('\n');
+}
+
+function taskList(node: AdfNode): string {
+	return (node.content ?? [])
+		.map(item => {
+			if (item.type === 'taskList') return indent(taskList(item), '  ');
+			const done = item.attrs?.['state'] === 'DONE';
+			return `- [${done ? 'x' : ' '}] ${inline(item.content)}`;
+		})
+		.join('\n');
+}
+
+function cellText(cell: AdfNode): string {
+	return blocks(cell.content).trim().replace(/\|/g, '\\|').replace(/\n+/g, '<br>');
+}
+
+function table(node: AdfNode): string {
+	const rows = (node.content ?? []).map(row => (row.content ?? []).map(cellText));
+	if (!rows.length) return '';
+	const width = Math.max(...rows.map(r => r.length));
+	const line = (cells: string[]) =>
+		`| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+	const [head, ...body] = rows;
+	return [line(head), line(Array(width).fill('---')), ...body.map(line)].join('\n');
+}
+
+function block(node: AdfNode): string {
+	const attrs = node.attrs ?? {};
+	switch (node.type) {
+		case 'paragraph':
+			return inline(node.content);
+		case 'heading': {
+			const level = Math.min(Math.max(Number(attrs['level']) || 1, 1), 6);
+			return `${'#'.repeat(level)} ${inline(node.content)}`;
+		}
+		case 'bulletList':
+			return list(node, false);
+		case 'orderedList':
+			return list(node, true);
+		case 'taskList':
+			return taskList(node);
+		case 'decisionList':
+			return (node.content ?? []).map(d => `- Decision: ${inline(d.content)}`).join('\n');
+		case 'codeBlock':
+			return `\`\`\`${str(attrs['language'])}\n${inline(node.content)}\n\`\`\``;
+		case 'blockquote':
+			return quote(blocks(node.content));
+		case 'rule':
+			return '---';
+		case 'panel': {
+			const label = PANEL_LABELS[str(attrs['panelType'])] ?? 'Note';
+			return quote(`**${label}:** ${blocks(node.content).trim()}`);
+		}
+		case 'expand':
+		case 'nestedExpand': {
+			const title = str(attrs['title']);
+			const body = blocks(node.content);
+			return title ? `**${title}**\n\n${body}` : body;
+		}
+		case 'table':
+			return table(node);
+		case 'mediaSingle':
+		case 'mediaGroup':
+			return (node.content ?? []).map(mediaPlaceholder).join('\n');
+		case 'blockCard':
+		case 'embedCard':
+			return str(attrs['url']) ? `<${str(attrs['url'])}>` : '';
+		case 'extension':
+		case 'bodiedExtension':
+		case 'inlineExtension':
+			return `[macro: ${str(attrs['extensionKey']) || 'extension'}]`;
+		default:
+			return node.content ? blocks(node.content) : inlineNode(node);
+	}
+}
+
+function blocks(nodes: AdfNode[] | undefined, separator = '\n\n'): string {
+	return (nodes ?? [])
+		.map(block)
+		.filter(s => s.trim())
+		.join(separator);
+}
+
+/** Converts an Atlassian Document Format tree (Jira Cloud rich text) to Markdown. */
+export function adfToMarkdown(doc: JsonValue): string {
+	if (!doc || typeof doc !== 'object' || Array.isArray(doc)) return '';
+	return blocks((doc as AdfNode).content).trim();
+}
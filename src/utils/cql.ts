@@ -0,0 +1,39 @@
+import { isValidJql } from './jql.js';
+
+const PERSONAL_SPACE = /(\bspace(?:\.key)?\s*!?=\s*)(~[\w.@+-]+)/gi;
+const PERSONAL_SPACE_LIST = /(\bspace(?:\.key)?\s+(?:not\s+)?in\s*\()([^)]*)\)/gi;
+
+export function quoteCqlValue(value: string): string {
+	return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/** Quotes personal space keys (`~username`), which CQL rejects unquoted. */
+export function quotePersonalSpaces(cql: string): string {
+	return cql
+		.replace(PERSONAL_SPACE, (_m, head: string, key: string) => `${head}"${key}"`)
+		.replace(PERSONAL_SPACE_LIST, (_m, head: string, list: string) => {
+			const items = list.split(',').map(v => {
+				const t = v.trim();
+				return t.startsWith('~') ? `"${t}"` : t;
+			});
+			return `${head}${items.join(', ')})`;
+		});
+}
+
+/** CQL shares JQL's clause grammar (fields, operators, AND/OR/NOT, IN, functions, ORDER BY). */
+export function isValidCql(input: string): boolean {
+	return isValidJql(quotePersonalSpaces(input));
+}
+
+/** Normalizes CQL input, or turns plain text into a `siteSearch ~` query. */
+export function buildCql(input: string): string {
+	const query = input.trim();
+	if (isValidCql(query)) return quotePersonalSpaces(query);
+	return `siteSearch ~ ${quoteCqlValue(query)}`;
+}
+
+/** The same query with `siteSearch` replaced by `text`, or undefined when it has no siteSearch. */
+export function siteSearchToText(cql: string): string | undefined {
+	const re = /\bsiteSearch(\s*!?~)/gi;
+	return re.test(cql) ? cql.replace(re, 'text$1') : undefined;
+}
@@ -0,0 +1,39 @@
+export interface SearchCursor {
+	product: string;
+	query: string;
+	startAt: number;
+}
+
+// Cursors are unsigned, so they carry no page size: the server always applies its own.
+interface EncodedCursor {
+	v: 1;
+	p: string;
+	q: string;
+	s: number;
+}
+
+/** Query prefix accepted as a continuation by clients that can only send `query`. */
+export const CURSOR_QUERY_PREFIX = 'cursor:';
+
+export function encodeCursor({ product, query, startAt }: SearchCursor): string {
+	const payload: EncodedCursor = { v: 1, p: product, q: query, s: startAt };
+	return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(token: string): SearchCursor | undefined {
+	try {
+		const c = JSON.parse(
+			Buffer.from(token.trim(), 'base64url').toString('utf8'),
+		) as EncodedCursor;
+		if (c.v !== 1 || typeof c.q !== 'string') return undefined;
+		if (!Number.isInteger(c.s) || c.s < 0) return undefined;
+		return { product: String(c.p), query: c.q, startAt: c.s };
+	} catch {
+		return undefined;
+	}
+}
+
+export function cursorFromQuery(query: string): string | undefined {
+	const q = query.trim();
+	return q.startsWith(CURSOR_QUERY_PREFIX) ? q.slice(CURSOR_QUERY_PREFIX.length) : undefined;
+}
@@ -0,0 +1,27 @@
+import { JsonValue } from '../types/json.js';
+
+export type FieldPath = string | string[];
+
+export function getPath(value: JsonValue, path: string): JsonValue | undefined {
+	if (!path) return value;
+	let cur: JsonValue | undefined = value;
+	for (const segment of path.split('.')) {
+		if (cur === null || cur === undefined || typeof cur !== 'object') return undefined;
+		cur = Array.isArray(cur)
+			? (cur as JsonValue[])[Number(segment)]
+			: (cur as Record<string, JsonValue>)[segment];
+	}
+	return cur;
+}
+
+export function getFirstPath(
+	value: JsonValue,
+	paths: FieldPath | undefined,
+): JsonValue | undefined {
+	if (paths === undefined) return undefined;
+	for (const p of Array.isArray(paths) ? paths : [paths]) {
+		const v = getPath(value, p);
+		if (v !== undefined && v !== null && v !== '') return v;
+	}
+	return undefined;
+}
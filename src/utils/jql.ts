@@ -0,0 +1,322 @@
+export type JqlTokenType = 'word' | 'string' | 'operator' | 'lparen' | 'rparen' | 'comma';
+
+export interface JqlToken {
+	type: JqlTokenType;
+	value: string;
+}
+
+const KEYWORDS = new Set([
+	'and',
+	'or',
+	'not',
+	'in',
+	'is',
+	'was',
+	'changed',
+	'empty',
+	'null',
+	'order',
+	'by',
+	'asc',
+	'desc',
+]);
+
+const CHANGE_PREDICATES = new Set(['from', 'to', 'by', 'after', 'before', 'on', 'during']);
+
+const ISSUE_KEY = /\b[A-Z][A-Z0-9_]+-\d+\b/g;
+
+/** Splits JQL into tokens; returns undefined on unterminated strings or stray characters. */
+export function tokenizeJql(input: string): JqlToken[] | undefined {
+	const tokens: JqlToken[] = [];
+	let i = 0;
+	while (i < input.length) {
+		const ch = input[i];
+		if (/\s/.test(ch)) {
+			i++;
+			continue;
+		}
+		if (ch === '"' || ch === "'") {
+			let j = i + 1;
+			let value = '';
+			while (j < input.length && input[j] !== ch) {
+				if (input[j] === '\\' && j + 1 < input.length) j++;
+				value += input[j++];
+			}
+			if (j >= input.length) return undefined;
+			tokens.push({ type: 'string', value });
+			i = j + 1;
+			continue;
+		}
+		if (ch === '(' || ch === ')' || ch === ',') {
+			tokens.push({
+				type: ch === '(' ? 'lparen' : ch === ')' ? 'rparen' : 'comma',
+				value: ch,
+			});
+			i++;
+			continue;
+		}
+		const op = /^(!=|!~|>=|<=|=|~|>|<)/.exec(input.slice(i));
+		if (op) {
+			tokens.push({ type: 'operator', value: op[1] });
+			i += op[1].length;
+			continue;
+		}
+		const word = /^[\w.\-+:/@[\]*]+/.exec(input.slice(i));
+		if (!word) return undefined;
+		tokens.push({ type: 'word', value: word[0] });
+		i += word[0].length;
+	}
+	return tokens;
+}
+
+/** Recursive-descent check of the JQL grammar Jira accepts (clauses, boolean logic, ORDER BY). */
+class JqlValidator {
+	private pos = 0;
+
+	constructor(private readonly tokens: JqlToken[]) {}
+
+	validate(): boolean {
+		if (!this.tokens.length) return false;
+		if (!this.isKeyword('order')) this.orClause();
+		if (this.isKeyword('order')) this.orderBy();
+		return this.pos === this.tokens.length;
+	}
+
+	private peek(offset = 0): JqlToken | undefined {
+		return this.tokens[this.pos + offset];
+	}
+
+	private isKeyword(kw: string, offset = 0): boolean {
+		const t = this.peek(offset);
+		return t?.type === 'word' && t.value.toLowerCase() === kw;
+	}
+
+	private expect(check: boolean): void {
+		if (!check) throw new Error('invalid jql');
+		this.pos++;
+	}
+
+	private orClause() {
+		this.andClause();
+		while (this.isKeyword('or')) {
+			this.pos++;
+			this.andClause();
+		}
+	}
+
+	private andClause() {
+		this.notClause();
+		while (this.isKeyword('and')) {
+			this.pos++;
+			this.notClause();
+		}
+	}
+
+	private notClause() {
+		if (this.isKeyword('not')) {
+			this.pos++;
+			this.notClause();
+		} else if (this.peek()?.type === 'lparen') {
+			this.pos++;
+			this.orClause();
+			this.expect(this.peek()?.type === 'rparen');
+		} else this.clause();
+	}
+
+	private field() {
+		const t = this.peek();
+		this.expect(
+			t?.type === 'string' || (t?.type === 'word' && !KEYWORDS.has(t.value.toLowerCase())),
+		);
+	}
+
+	private clause() {
+		this.field();
+		const t = this.peek();
+		if (t?.type === 'operator') {
+			this.pos++;
+			this.operand();
+		} else if (this.isKeyword('in') || (this.isKeyword('not') && this.isKeyword('in', 1))) {
+			this.pos += this.isKeyword('not') ? 2 : 1;
+			this.list();
+		} else if (this.isKeyword('is')) {
+			this.pos++;
+			if (this.isKeyword('not')) this.pos++;
+			this.expect(this.isKeyword('empty') || this.isKeyword('null'));
+		} else if (this.isKeyword('was')) {
+			this.pos++;
+			if (this.isKeyword('not')) this.pos++;
+			if (this.isKeyword('in')) {
+				this.pos++;
+				this.list();
+			} else this.operand();
+			this.predicates();
+		} else if (this.isKeyword('changed')) {
+			this.pos++;
+			this.predicates();
+		} else this.expect(false);
+	}
+
+	private predicates() {
+		for (let t = this.peek(); t?.type === 'word'; t = this.peek()) {
+			if (!CHANGE_PREDICATES.has(t.value.toLowerCase())) break;
+			this.pos++;
+			this.operand();
+		}
+	}
+
+	private operand() {
+		const t = this.peek();
+		if (t?.type === 'lparen') {
+			this.list();
+			return;
+		}
+		this.expect(
+			t?.type === 'string' ||
+				(t?.type === 'word' && !['and', 'or', 'order'].includes(t.value.toLowerCase())),
+		);
+		// Function call such as currentUser() or startOfDay(-1).
+		if (t?.type === 'word' && this.peek()?.type === 'lparen') this.list(true);
+	}
+
+	private list(allowEmpty = false) {
+		this.expect(this.peek()?.type === 'lparen');
+		if (allowEmpty && this.peek()?.type === 'rparen') {
+			this.pos++;
+			return;
+		}
+		this.operand();
+		while (this.peek()?.type === 'comma') {
+			this.pos++;
+			this.operand();
+		}
+		this.expect(this.peek()?.type === 'rparen');
+	}
+
+	private orderBy() {
+		this.pos++;
+		this.expect(this.isKeyword('by'));
+		do {
+			if (this.peek()?.type === 'comma') this.pos++;
+			this.field();
+			if (this.isKeyword('asc') || this.isKeyword('desc')) this.pos++;
+		} while (this.peek()?.type === 'comma');
+	}
+}
+
+export function isValidJql(input: string): boolean {
+	const tokens = tokenizeJql(input);
+	if (!tokens) return false;
+	try {
+		return new JqlValidator(tokens).validate();
+	} catch {
+		return false;
+	}
+}
+
+export function quoteJqlValue(value: string): string {
+	return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+interface PhraseRule {
+	pattern: RegExp;
+	clause: string;
+}
+
+// Ordered: longer phrases first so "reported by me" wins over "me".
+const PHRASE_RULES: PhraseRule[] = [
+	{ pattern: /\b(reported|created|raised) by me\b/i, clause: 'reporter = currentUser()' },
+	{ pattern: /\b(assigned to me|my|mine)\b/i, clause: 'assignee = currentUser()' },
+	{ pattern: /\bunassigned\b/i, clause: 'assignee is EMPTY' },
+	{ pattern: /\bin progress\b/i, clause: 'statusCategory = "In Progress"' },
+	{ pattern: /\b(todo|to-do|not started)\b/i, clause: 'statusCategory = "To Do"' },
+	{ pattern: /\b(open|unresolved)\b/i, clause: 'resolution = Unresolved' },
+	{ pattern: /\b(closed|done|resolved)\b/i, clause: 'statusCategory = Done' },
+	{ pattern: /\b(bugs?|defects?)\b/i, clause: 'issuetype = Bug' },
+	{ pattern: /\b(stories|story)\b/i, clause: 'issuetype = Story' },
+	{ pattern: /\bepics?\b/i, clause: 'issuetype = Epic' },
+	{ pattern: /\bsub-?tasks?\b/i, clause: 'issuetype = Sub-task' },
+	{ pattern: /\btasks\b/i, clause: 'issuetype = Task' },
+	{ pattern: /\b(high priority|urgent)\b/i, clause: 'priority in (Highest, High)' },
+	{ pattern: /\btoday\b/i, clause: 'updated >= startOfDay()' },
+	{ pattern: /\b(this week|recent(ly)?( updated)?)\b/i, clause: 'updated >= -7d' },
+	{ pattern: /\bthis month\b/i, clause: 'updated >= startOfMonth()' },
+];
+
+const FILLER = new Set(
+	(
+		'a an the all any some show list find search get give me please for about with of to on ' +
+		'in issue issues ticket tickets jira item items that which are is'
+	).split(' '),
+);
+
+export interface JqlBuildOptions {
+	/** Known project keys; a standalone word matching one becomes a `project =` clause. */
+	projectKeys?: Iterable<string>;
+}
+
+/**
+ * Turns free text into JQL: issue keys become `key` clauses, common phrases ("my open bugs")
+ * become field clauses and the remaining words a `text ~` search.
+ */
+export function buildJqlFromText(input: string, opts: JqlBuildOptions = {}): string {
+	let rest = ` ${input.trim()} `;
+	const clauses: string[] = [];
+
+	const keys = [...new Set(rest.match(ISSUE_KEY) ?? [])];
+	rest = rest.replace(ISSUE_KEY, ' ');
+	const keyClause = keys.length
+		? keys.length === 1
+			? `key = ${keys[0]}`
+			: `key in (${keys.join(', ')})`
+		: '';
+
+	const projects = new Set<string>();
+	rest = rest.replace(/\bproject\s+([A-Za-z][A-Za-z0-9_]+)\b/gi, (_m, k: string) => {
+		projects.add(k.toUpperCase());
+		return ' ';
+	});
+	const known = new Set([...(opts.projectKeys ?? [])].map(k => k.toUpperCase()));
+	rest = rest.replace(/\b[A-Za-z][A-Za-z0-9_]+\b/g, w => {
+		if (!known.has(w.toUpperCase()) || (w !== w.toUpperCase() && w.length < 4)) return w;
+		projects.add(w.toUpperCase());
+		return ' ';
+	});
+	if (projects.size === 1) clauses.push(`project = ${[...projects][0]}`);
+	else if (projects.size > 1) clauses.push(`project in (${[...projects].join(', ')})`);
+
+	for (const rule of PHRASE_RULES) {
+		if (!rule.pattern.test(rest)) continue;
+		if (!clauses.includes(rule.clause)) clauses.push(rule.clause);
+		rest = rest.replace(new RegExp(rule.pattern.source, 'gi'), ' ');
+	}
+
+	const words = rest
+		.replace(/["'`?!.,;:()]/g, ' ')
+		.split(/\s+/)
+		.filter(w => w && !FILLER.has(w.toLowerCase()));
+	if (words.length) clauses.push(`text ~ ${quoteJqlValue(words.join(' '))}`);
+
+	let jql = clauses.join(' AND ');
+	if (keyClause) jql = jql ? `${keyClause} OR (${jql})` : keyClause;
+	return `${jql ? `${jql} ` : ''}ORDER BY updated DESC`;
+}
+
+/** Splits off a trailing ORDER BY, ignoring the words inside quoted strings. */
+function splitOrderBy(query: string): { where: string; orderBy: string } {
+	const masked = query.replace(/"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'/g, m => ' '.repeat(m.length));
+	const m = /\border\s+by\b(?![\s\S]*\border\s+by\b)/i.exec(masked);
+	if (!m) return { where: query, orderBy: '' };
+	return { where: query.slice(0, m.index), orderBy: query.slice(m.index).trim() };
+}
+
+/**
+ * ANDs `clause` into a JQL or CQL query while keeping its ORDER BY. The query is always
+ * parenthesized: an OR inside it must not escape the clause.
+ */
+export function andClause(query: string, clause: string): string {
+	const { where, orderBy } = splitOrderBy(query);
+	const w = where.trim();
+	const combined = w ? `(${w}) AND ${clause}` : clause;
+	return orderBy ? `${combined} ${orderBy}` : combined;
+}
@@ -0,0 +1,62 @@
+/** Splits Markdown into sections starting at headings, ignoring `#` lines inside code fences. */
+function headingSections(text: string): string[] {
+	const sections: string[][] = [[]];
+	let fence: string | undefined;
+	for (const line of text.split('\n')) {
+		const marker = /^\s*(`{3,}|~{3,})/.exec(line)?.[1];
+		if (marker) {
+			if (!fence) fence = marker;
+			else if (marker.startsWith(fence)) fence = undefined;
+		} else if (!fence && /^#{1,6}\s/.test(line) && sections[sections.length - 1].length) {
+			sections.push([]);
+		}
+		sections[sections.length - 1].push(line);
+	}
+	return sections.map(lines => lines.join('\n'));
+}
+
+/** Greedily joins parts with `sep` into chunks of at most `max` characters. */
+function pack(parts: string[], max: number, sep: string): string[] {
+	const chunks: string[] = [];
+	let current = '';
+	for (const part of parts) {
+		if (current && current.length + sep.length + part.length > max) {
+			chunks.push(current);
+			current = part;
+		} else {
+			current = current ? current + sep + part : part;
+		}
+	}
+	if (current) chunks.push(current);
+	return chunks;
+}
+
+/** Splits an oversized block at the coarsest separator that works, then by length. */
+function splitBlock(text: string, max: number, seps: string[]): string[] {
+	if (text.length <= max) return [text];
+	const [sep, ...rest] = seps;
+	if (sep === undefined) {
+		const out: string[] = [];
+		for (let i = 0; i < text.length; i += max) out.push(text.slice(i, i + max));
+		return out;
+	}
+	const parts = text.split(sep);
+	if (parts.length === 1) return splitBlock(text, max, rest);
+	return pack(
+		parts.flatMap(p => splitBlock(p, max, rest)),
+		max,
+		sep,
+	);
+}
+
+/**
+ * Splits Markdown into chunks of at most `maxChars`, preferring heading boundaries (sections,
+ * Jira comments), then paragraphs, lines and words.
+ */
+export function chunkMarkdown(text: string, maxChars: number): string[] {
+	if (text.length <= maxChars) return [text];
+	const blocks = headingSections(text).flatMap(s => splitBlock(s, maxChars, ['\n\n', '\n', ' ']));
+	return pack(blocks, maxChars, '\n')
+		.map(c => c.trim())
+		.filter(Boolean);
+}
@@ -2,6 +2,8 @@ import { Request } from 'express';
 
 export interface ResolvePrefixOptions {
 	staticPrefix?: string;
+	/** Mount path of the product's router, for handlers registered outside it. */
+	mountPath?: string;
 }
 
 export interface ResolvedPrefix {
@@ -11,15 +13,22 @@ export interface ResolvedPrefix {
 
 export function resolveDynamicPrefix(
 	req: Request,
-	{ staticPrefix }: ResolvePrefixOptions,
+	{ staticPrefix, mountPath }: ResolvePrefixOptions,
 ): ResolvedPrefix {
 	const dynamicPrefix = (staticPrefix || '').replace(/\/+$/, '');
 	if (dynamicPrefix) return { prefix: dynamicPrefix, reason: 'static' };
+	const mount = (mountPath ?? req.baseUrl ?? '').replace(/\/+$/, '');
 	const xfwd = (req.headers['x-forwarded-prefix'] || req.headers['x-forwarded-uri'] || '')
 		.toString()
 		.split(',')[0]
 		.trim();
-	if (xfwd) return { prefix: xfwd.replace(/\/+$/, ''), reason: 'x-forwarded' };
+	if (xfwd) {
+		// A proxy prefix in front of a mounted router (single-port mode) still needs the mount path.
+		const outer = xfwd.replace(/\/+$/, '');
+		const prefix = mount && !outer.endsWith(mount) ? `${outer}${mount}` : outer;
+		return { prefix, reason: 'x-forwarded' };
+	}
+	if (mount) return { prefix: mount, reason: 'mount' };
 	const original = (req.originalUrl || '').split('?')[0];
 	if (original && original !== '/')
 		return { prefix: original.replace(/\/+$/, ''), reason: 'original' };
@@ -0,0 +1,407 @@
+interface XmlElement {
+	tag: string;
+	attrs: Record<string, string>;
+	children: XmlNode[];
+}
+
+type XmlNode = XmlElement | string;
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'col', 'meta', 'link', 'input', 'wbr']);
+
+const BLOCK_TAGS = new Set([
+	'p',
+	'div',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'ul',
+	'ol',
+	'table',
+	'pre',
+	'blockquote',
+	'hr',
+	'section',
+	'ac:task-list',
+	'ac:layout',
+	'ac:layout-section',
+	'ac:layout-cell',
+	'ac:rich-text-body',
+]);
+
+const INLINE_MACROS = new Set(['status', 'jira', 'anchor', 'mention']);
+
+const PANEL_MACROS: Record<string, string> = {
+	info: 'Info',
+	note: 'Note',
+	warning: 'Warning',
+	tip: 'Tip',
+	panel: '',
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' ',
+	ndash: '–',
+	mdash: '—',
+	hellip: '…',
+	lsquo: '‘',
+	rsquo: '’',
+	ldquo: '“',
+	rdquo: '”',
+	laquo: '«',
+	raquo: '»',
+	bull: '•',
+	middot: '·',
+	copy: '©',
+	reg: '®',
+	trade: '™',
+	rarr: '→',
+	larr: '←',
+};
+
+const STORAGE_SIGNAL =
+	/<(ac:|ri:|p[\s>]|h[1-6][\s>]|table[\s>]|ul[\s>]|ol[\s>]|div[\s>]|br\s*\/?>)/i;
+
+export function looksLikeStorageFormat(text: string): boolean {
+	return STORAGE_SIGNAL.test(text);
+}
+
+function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+		if (e[0] !== '#') return NAMED_ENTITIES[e.toLowerCase()] ?? m;
+		const code = e[1] === 'x' || e[1] === 'X' ? parseInt(e.slice(2), 16) : Number(e.slice(1));
+		return Number.isFinite(code) && code > 0 ? String.fromCodePoint(code) : m;
+	});
+}
+
+function parseAttrs(source: string): Record<string, string> {
+	const attrs: Record<string, string> = {};
+	const re = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/g;
+	let m: RegExpExecArray | null;
+	while ((m = re.exec(source))) attrs[m[1].toLowerCase()] = decodeEntities(m[3] ?? m[4] ?? m[5]);
+	return attrs;
+}
+
+/** Lenient XHTML parser: unknown or unbalanced tags never throw, stray closing tags are ignored. */
+function parseStorage(xhtml: string): XmlElement {
+	const root: XmlElement = { tag: '#root', attrs: {}, children: [] };
+	const stack: XmlElement[] = [root];
+	const token = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<(\/?)([\w:.-]+)([^>]*?)(\/?)>/g;
+	let last = 0;
+	let m: RegExpExecArray | null;
+	const top = () => stack[stack.length - 1];
+	while ((m = token.exec(xhtml))) {
+		if (m.index > last) top().children.push(decodeEntities(xhtml.slice(last, m.index)));
+		last = token.lastIndex;
+		if (m[1] !== undefined) {
+			// CDATA is already literal text; wrap it so whitespace is preserved.
+			top().children.push({ tag: '#cdata', attrs: {}, children: [m[1]] });
+			continue;
+		}
+		if (!m[3]) continue;
+		const tag = m[3].toLowerCase();
+		if (m[2]) {
+			const idx = stack.map(e => e.tag).lastIndexOf(tag);
+			if (idx > 0) stack.length = idx;
+			continue;
+		}
+		const el: XmlElement = { tag, attrs: parseAttrs(m[4]), children: [] };
+		top().children.push(el);
+		if (!m[5] && !VOID_TAGS.has(tag)) stack.push(el);
+	}
+	if (last < xhtml.length) top().children.push(decodeEntities(xhtml.slice(last)));
+	return root;
+}
+
+const isElement = (n: XmlNode): n is XmlElement => typeof n !== 'string';
+
+function child(el: XmlElement, tag: string): XmlElement | undefined {
+	return el.children.filter(isElement).find(c => c.tag === tag);
+}
+
+function textOf(node: XmlNode): string {
+	return isElement(node) ? node.children.map(textOf).join('') : node;
+}
+
+function macroParam(el: XmlElement, name: string): string {
+	const param = el.children
+		.filter(isElement)
+		.find(c => c.tag === 'ac:parameter' && c.attrs['ac:name'] === name);
+	return param ? textOf(param).trim() : '';
+}
+
+function isBlock(node: XmlNode): boolean {
+	if (!isElement(node)) return false;
+	if (node.tag === 'ac:structured-macro' || node.tag === 'ac:macro')
+		return !INLINE_MACROS.has(node.attrs['ac:name'] ?? '');
+	return BLOCK_TAGS.has(node.tag);
+}
+
+function quote(text: string): string {
+	return text
+		.split('\n')
+		.map(line => (line ? `> ${line}` : '>'))
+		.join('\n');
+}
+
+function indent(text: string, prefix: string): string {
+	const pad = ' '.repeat(prefix.length);
+	return text
+		.split('\n')
+		.map((line, i) => (i === 0 ? prefix + line : line ? pad + line : line))
+		.join('\n');
+}
+
+function wrap(marker: string, text: string): string {
+	const inner = text.trim();
+	return inner ? `${marker}${inner}${marker}` : '';
+}
+
+function linkTarget(el: XmlElement): { label: string; href: string } {
+	const page = child(el, 'ri:page') ?? child(el, 'ri:blog-post');
+	const attachment = child(el, 'ri:attachment');
+	const user = child(el, 'ri:user');
+	const url = child(el, 'ri:url');
+	if (user) {
+		const name =
+			user.attrs['ri:username'] || user.attrs['ri:userkey'] || user.attrs['ri:account-id'];
+		return { label: `@${name || 'user'}`, href: '' };
+	}
+	if (attachment) return { label: attachment.attrs['ri:filename'] ?? 'attachment', href: '' };
+	if (url) return { label: url.attrs['ri:value'] ?? '', href: url.attrs['ri:value'] ?? '' };
+	if (page) {
+		const space = page.attrs['ri:space-key'];
+		const title = page.attrs['ri:content-title'] ?? '';
+		return { label: space ? `${space}: ${title}` : title, href: '' };
+	}
+	const anchor = el.attrs['ac:anchor'];
+	return { label: anchor ? `#${anchor}` : '', href: '' };
+}
+
+function renderLink(el: XmlElement): string {
+	const target = linkTarget(el);
+	const body = child(el, 'ac:link-body') ?? child(el, 'ac:plain-text-link-body');
+	const label = (body ? inline(body.children) : '').trim() || target.label;
+	if (target.href) return `[${label}](${target.href})`;
+	if (target.label.startsWith('@')) return label;
+	return child(el, 'ri:attachment') ? `[attachment: ${label}]` : `[${label}]`;
+}
+
+function renderImage(el: XmlElement): string {
+	const attachment = child(el, 'ri:attachment');
+	const url = child(el, 'ri:url');
+	const name =
+		el.attrs['ac:alt'] || attachment?.attrs['ri:filename'] || url?.attrs['ri:value'] || 'image';
+	return `[image: ${name}]`;
+}
+
+function renderMacro(el: XmlElement): string {
+	const name = el.attrs['ac:name'] ?? '';
+	const richBody = child(el, 'ac:rich-text-body');
+	const plainBody = child(el, 'ac:plain-text-body');
+	const body = richBody ? blocks(richBody.children) : plainBody ? textOf(plainBody) : '';
+	switch (name) {
+		case 'code':
+		case 'noformat': {
+			const language = name === 'code' ? macroParam(el, 'language') : '';
+			return `\`\`\`${language}\n${body.replace(/^\n+|\n+$/g, '')}\n\`\`\``;
+		}
+		case 'info':
+		case 'note':
+		case 'warning':
+		case 'tip':
+		case 'panel': {
+			const title = macroParam(el, 'title');
+			const label = [PANEL_MACROS[name], title].filter(Boolean).join(': ');
+			return quote(label ? `**${label}**\n\n${body.trim()}` : body.trim());
+		}
+		case 'expand': {
+			const title = macroParam(el, 'title') || 'Details';
+			return `**${title}**\n\n${body.trim()}`;
+		}
+		case 'jira': {
+			const key = macroParam(el, 'key');
+			if (key) return `[Jira: ${key}]`;
+			const jql = macroParam(el, 'jqlQuery');
+			return jql ? `[Jira query: ${jql}]` : '[Jira issues]';
+		}
+		case 'status':
+			return `[${macroParam(el, 'title') || macroParam(el, 'colour') || 'status'}]`;
+		case 'anchor':
+		case 'toc':
+		case 'children':
+		case 'pagetree':
+		case 'recently-updated':
+			return '';
+		default:
+			return body.trim() || `[macro: ${name || 'unknown'}]`;
+	}
+}
+
+function renderTaskList(el: XmlElement): string {
+	return el.children
+		.filter(isElement)
+		.map(task => {
+			if (task.tag === 'ac:task-list') return indent(renderTaskList(task), '  ');
+			if (task.tag !== 'ac:task') return '';
+			const status = child(task, 'ac:task-status');
+			const done = status ? textOf(status).trim() === 'complete' : false;
+			const body = child(task, 'ac:task-body');
+			return `- [${done ? 'x' : ' '}] ${body ? blocks(body.children, '\n') : ''}`;
+		})
+		.filter(Boolean)
+		.join('\n');
+}
+
+function renderList(el: XmlElement, ordered: boolean): string {
+	let n = Number(el.attrs['start']) || 1;
+	return el.children
+		.filter(isElement)
+		.filter(c => c.tag === 'li')
+		.map(li => indent(blocks(li.children, '\n'), ordered ? `${n++}. ` : '- '))
+		.join('\n');
+}
+
+function renderTable(el: XmlElement): string {
+	const rows: XmlElement[] = [];
+	const collect = (node: XmlElement) => {
+		for (const c of node.children.filter(isElement)) {
+			if (c.tag === 'tr') rows.push(c);
+			else if (['thead', 'tbody', 'tfoot'].includes(c.tag)) collect(c);
+		}
+	};
+	collect(el);
+	const cells = rows.map(r =>
+		r.children
+			.filter(isElement)
+			.filter(c => c.tag === 'td' || c.tag === 'th')
+			.map(c =>
+				blocks(c.children, '\n')
+					.replace(/\|/g, '\\|')
+					.replace(/\s*\n\s*/g, '<br>'),
+			),
+	);
+	if (!cells.length) return '';
+	const width = Math.max(...cells.map(r => r.length));
+	const line = (row: string[]) =>
+		`| ${Array.from({ length: width }, (_, i) => row[i] ?? '').join(' | ')} |`;
+	const [head, ...body] = cells;
+	return [line(head), line(Array(width).fill('---')), ...body.map(line)].join('\n');
+}
+
+function renderBlock(el: XmlElement): string {
+	switch (el.tag) {
+		case 'h1':
+		case 'h2':
+		case 'h3':
+		case 'h4':
+		case 'h5':
+		case 'h6':
+			return `${'#'.repeat(Number(el.tag[1]))} ${inline(el.children).trim()}`;
+		case 'p':
+			return inline(el.children).trim();
+		case 'ul':
+			return renderList(el, false);
+		case 'ol':
+			return renderList(el, true);
+		case 'table':
+			return renderTable(el);
+		case 'pre':
+			return `\`\`\`\n${textOf(el).replace(/^\n+|\n+$/g, '')}\n\`\`\``;
+		case 'blockquote':
+			return quote(blocks(el.children));
+		case 'hr':
+			return '---';
+		case 'ac:structured-macro':
+		case 'ac:macro':
+			return renderMacro(el);
+		case 'ac:task-list':
+			return renderTaskList(el);
+		default:
+			return blocks(el.children);
+	}
+}
+
+function inlineNode(node: XmlNode): string {
+	if (!isElement(node)) return node.replace(/\s+/g, ' ');
+	switch (node.tag) {
+		case '#cdata':
+			return textOf(node);
+		case 'br':
+			return '  \n';
+		case 'strong':
+		case 'b':
+			return wrap('**', inline(node.children));
+		case 'em':
+		case 'i':
+			return wrap('_', inline(node.children));
+		case 's':
+		case 'del':
+		case 'strike':
+			return wrap('~~', inline(node.children));
+		case 'code':
+			return wrap('`', textOf(node));
+		case 'a': {
+			const label = inline(node.children).trim();
+			const href = node.attrs['href'] ?? '';
+			return href ? `[${label || href}](${href})` : label;
+		}
+		case 'img':
+			return `[image: ${node.attrs['alt'] || node.attrs['src'] || 'image'}]`;
+		case 'time':
+			return node.attrs['datetime'] ?? textOf(node);
+		case 'ac:link':
+			return renderLink(node);
+		case 'ac:image':
+			return renderImage(node);
+		case 'ac:emoticon':
+			return `:${node.attrs['ac:name'] ?? 'emoticon'}:`;
+		case 'ac:placeholder':
+		case 'ac:parameter':
+			return '';
+		case 'ac:structured-macro':
+		case 'ac:macro':
+			return renderMacro(node);
+		default:
+			return inline(node.children);
+	}
+}
+
+function inline(nodes: XmlNode[]): string {
+	return nodes.map(inlineNode).join('');
+}
+
+function blocks(nodes: XmlNode[], separator = '\n\n'): string {
+	const out: string[] = [];
+	let run: XmlNode[] = [];
+	const flush = () => {
+		const text = inline(run).trim();
+		if (text) out.push(text);
+		run = [];
+	};
+	for (const node of nodes) {
+		if (!isBlock(node)) {
+			run.push(node);
+			continue;
+		}
+		flush();
+		const rendered = renderBlock(node as XmlElement);
+		if (rendered.trim()) out.push(rendered);
+	}
+	flush();
+	return out.join(separator);
+}
+
+/** Converts Confluence storage format (XHTML with `ac:`/`ri:` elements) to Markdown. */
+export function storageToMarkdown(xhtml: string): string {
+	return blocks(parseStorage(xhtml).children)
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
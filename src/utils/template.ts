@@ -0,0 +1,49 @@
+import { JsonValue } from '../types/json.js';
+
+export type TemplateVars = Record<string, string | number>;
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*(?:\|\s*(\w+)\s*)?\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+function applyFilter(value: string, filter?: string): string {
+	switch (filter) {
+		case 'quote':
+			return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+		case 'upper':
+			return value.toUpperCase();
+		case 'lower':
+			return value.toLowerCase();
+		default:
+			return value;
+	}
+}
+
+/** Variable names referenced by the template's placeholders. */
+export function placeholderNames(template: string): string[] {
+	return [...template.matchAll(PLACEHOLDER)].map(m => m[1]);
+}
+
+export function renderString(template: string, vars: TemplateVars): string {
+	return template.replace(PLACEHOLDER, (_m, name: string, filter?: string) =>
+		name in vars ? applyFilter(String(vars[name]), filter) : '',
+	);
+}
+
+/**
+ * Renders `{{name}}` placeholders in every string of a JSON template. A string consisting of a
+ * single placeholder keeps the variable's type, so `"limit": "{{limit}}"` stays numeric.
+ */
+export function renderTemplate(template: JsonValue, vars: TemplateVars): JsonValue {
+	if (typeof template === 'string') {
+		const whole = WHOLE_PLACEHOLDER.exec(template);
+		if (whole && whole[1] in vars) return vars[whole[1]];
+		return renderString(template, vars);
+	}
+	if (Array.isArray(template)) return template.map(v => renderTemplate(v, vars));
+	if (template && typeof template === 'object') {
+		const out: Record<string, JsonValue> = {};
+		for (const [k, v] of Object.entries(template)) out[k] = renderTemplate(v, vars);
+		return out;
+	}
+	return template;
+}
@@ -0,0 +1,168 @@
+const PANEL_MACROS: Record<string, string> = {
+	info: 'Info',
+	note: 'Note',
+	warning: 'Warning',
+	tip: 'Tip',
+};
+
+// Only constructs that never appear in Markdown; `*bold*` alone is ambiguous.
+const WIKI_SIGNALS = [
+	/^h[1-6]\.\s/m,
+	/^bq\.\s/m,
+	/\{(code|noformat|quote|panel|info|note|warning|tip|color)(:[^}]*)?\}/,
+	/^\|\|/m,
+	/\[[^\]|\n]+\|(https?:|mailto:)[^\]\n]+\]/,
+	/\[~[^\]\n]+\]/,
+	/\{\{[^}\n]+\}\}/,
+	/![^!\s][^!\n]*\.(png|jpe?g|gif|svg|webp)(\|[^!\n]*)?!/i,
+];
+
+export function looksLikeWikiMarkup(text: string): boolean {
+	return WIKI_SIGNALS.some(re => re.test(text));
+}
+
+const BOUNDARY_BEFORE = String.raw`(^|[\s([{>])`;
+const BOUNDARY_AFTER = String.raw`(?=$|[\s.,;:!?)\]}<])`;
+const span = (marker: string) =>
+	new RegExp(`${BOUNDARY_BEFORE}${marker}(\\S(?:[^\\n]*?\\S)?)${marker}${BOUNDARY_AFTER}`, 'g');
+
+const BOLD = span(String.raw`\*`);
+const STRIKE = span('-');
+const UNDERLINE = span(String.raw`\+`);
+const CITE = span(String.raw`\?\?`);
+
+function inline(text: string): string {
+	const code: string[] = [];
+	const stash = (s: string) => `\uE000${code.push(s) - 1}\uE000`;
+	return text
+		.replace(/\{\{(.+?)\}\}/g, (_m, c: string) => stash(`\`${c}\``))
+		.replace(/\{color(:[^}]*)?\}/g, '')
+		.replace(/!([^!\s|][^!|\n]*)(\|[^!\n]*)?!/g, (_m, f: string) => `[attachment: ${f}]`)
+		.replace(/\[~([^\]]+)\]/g, (_m, u: string) => `@${u.replace(/^accountid:/, '')}`)
+		.replace(/\[([^\]|\n]+)\|([^\]\n]+)\]/g, (_m, t: string, u: string) =>
+			stash(`[${t.trim()}](${u.trim()})`),
+		)
+		.replace(/\[((?:https?:|mailto:)[^\]\s]+)\]/g, (_m, u: string) => stash(`<${u}>`))
+		.replace(BOLD, '$1**$2**')
+		.replace(STRIKE, '$1~~$2~~')
+		.replace(UNDERLINE, '$1$2')
+		.replace(CITE, '$1_$2_')
+		.replace(/\\\\/g, '  \n')
+		.replace(/\uE000(\d+)\uE000/g, (_m, i: string) => code[Number(i)]);
+}
+
+function tableRow(line: string): string[] {
+	// Keep `[text|url]` links intact while splitting cells.
+	return line
+		.replace(/\[[^\]\n]*\]/g, m => m.replace(/\|/g, '\uE001'))
+		.replace(/^\|\|?/, '')
+		.replace(/\|\|?\s*$/, '')
+		.split(/\|\|?/)
+		.map(c =>
+			inline(c.trim().replace(/\uE001/g, '|'))
+				.replace(/\|/g, '\\|')
+				.replace(/\s*\n/g, '<br>'),
+		);
+}
+
+/** Converts Jira Server/Data Center wiki markup to Markdown. */
+export function wikiToMarkdown(text: string): string {
+	const lines = text.replace(/\r\n?/g, '\n').split('\n');
+	const out: string[] = [];
+	let fence: { end: RegExp } | undefined;
+	// Closing tag of the open `{quote}` / `{panel}` style block.
+	let quoteBlock: RegExp | undefined;
+	let tableHeader = false;
+
+	for (const raw of lines) {
+		if (fence) {
+			const end = fence.end.exec(raw);
+			if (end) {
+				const before = raw.slice(0, end.index);
+				if (before) out.push(before);
+				out.push('```');
+				fence = undefined;
+			} else out.push(raw);
+			continue;
+		}
+
+		const open = /^\s*\{(code|noformat)(?::([^}]*))?\}(.*)$/.exec(raw);
+		if (open) {
+			const lang = open[1] === 'code' ? (open[2] ?? '').split('|')[0].trim() : '';
+			out.push(`\`\`\`${lang.includes('=') ? '' : lang}`);
+			const rest = open[3];
+			const end = new RegExp(`\\{${open[1]}\\}`);
+			const close = end.exec(rest);
+			if (close) {
+				if (rest.slice(0, close.index)) out.push(rest.slice(0, close.index));
+				out.push('```');
+			} else {
+				if (rest) out.push(rest);
+				fence = { end };
+			}
+			continue;
+		}
+
+		const panel = /^\s*\{(quote|panel|info|note|warning|tip)(?::([^}]*))?\}\s*(.*)$/.exec(raw);
+		const opened = Boolean(panel && !quoteBlock);
+		let body = raw;
+		if (panel && opened) {
+			quoteBlock = new RegExp(`\\{${panel[1]}\\}`);
+			const title = /title=([^|}]+)/.exec(panel[2] ?? '')?.[1];
+			const label = PANEL_MACROS[panel[1]] ?? title;
+			if (label) out.push(`> **${label}${title && label !== title ? `: ${title}` : ''}**`);
+			body = panel[3];
+		}
+		const close = quoteBlock?.exec(body);
+		if (close) {
+			// The closing tag may share a line with the opening tag or the last line of text.
+			const inside = body.slice(0, close.index).trim();
+			if (inside) out.push(`> ${inline(inside)}`);
+			// A blank line ends the blockquote so the next block does not merge into it.
+			out.push('');
+			quoteBlock = undefined;
+			const after = body.slice(close.index + close[0].length).trim();
+			if (after) out.push(inline(after));
+			continue;
+		}
+		if (opened) {
+			if (body) out.push(`> ${inline(body)}`);
+			continue;
+		}
+
+		let line = raw;
+		const heading = /^h([1-6])\.\s+(.*)$/.exec(line);
+		const listItem = /^([*#]+)\s+(.*)$/.exec(line);
+		if (heading) line = `${'#'.repeat(Number(heading[1]))} ${inline(heading[2])}`;
+		else if (/^bq\.\s/.test(line)) line = `> ${inline(line.replace(/^bq\.\s+/, ''))}`;
+		else if (/^-{4,}\s*$/.test(line)) line = '---';
+		else if (/^\|\|/.test(line)) {
+			const cells = tableRow(line);
+			out.push(`| ${cells.join(' | ')} |`, `| ${cells.map(() => '---').join(' | ')} |`);
+			tableHeader = true;
+			continue;
+		} else if (/^\|/.test(line)) {
+			const cells = tableRow(line);
+			if (!tableHeader)
+				out.push(
+					`| ${cells.map(() => ' ').join(' | ')} |`,
+					`| ${cells.map(() => '---').join(' | ')} |`,
+				);
+			tableHeader = true;
+			out.push(`| ${cells.join(' | ')} |`);
+			continue;
+		} else if (listItem) {
+			const depth = listItem[1].length - 1;
+			const marker = listItem[1].endsWith('#') ? '1.' : '-';
+			line = `${'   '.repeat(depth)}${marker} ${inline(listItem[2])}`;
+		} else line = inline(line);
+
+		if (!/^\|/.test(raw)) tableHeader = false;
+		out.push(quoteBlock ? (line ? `> ${line}` : '>') : line);
+	}
+	if (fence) out.push('```');
+	return out
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
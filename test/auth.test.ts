@@ -0,0 +1,47 @@
+import { createServer } from 'http';
+import { exportJWK, generateKeyPair, SignJWT } from 'jose';
+import { AddressInfo } from 'net';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { readAuthConfig } from '../src/auth/index.js';
+import { createJwtVerifier } from '../src/auth/jwtVerifier.js';
+
+const issuer = 'https://auth.example.com';
+
+test('OAUTH_ISSUER without OAUTH_AUDIENCE is rejected', () => {
+	assert.throws(() => readAuthConfig({ OAUTH_ISSUER: issuer }), /OAUTH_AUDIENCE is required/);
+	assert.deepEqual(
+		readAuthConfig({ OAUTH_ISSUER: issuer, OAUTH_AUDIENCE: 'https://mcp.example.com/jira' })
+			?.oauth?.audience,
+		['https://mcp.example.com/jira'],
+	);
+});
+
+test('tokens issued for another resource are refused', async () => {
+	const { publicKey, privateKey } = await generateKeyPair('RS256');
+	const jwk = { ...(await exportJWK(publicKey)), kid: 'k1', alg: 'RS256' };
+	const jwks = createServer((_req, res) => res.end(JSON.stringify({ keys: [jwk] })));
+	await new Promise<void>(resolve => jwks.listen(0, '127.0.0.1', resolve));
+	const { port } = jwks.address() as AddressInfo;
+	const sign = (aud: string) =>
+		new SignJWT({ scope: 'read' })
+			.setProtectedHeader({ alg: 'RS256', kid: 'k1' })
+			.setIssuer(issuer)
+			.setSubject('alice')
+			.setAudience(aud)
+			.setExpirationTime('5m')
+			.sign(privateKey);
+	try {
+		const verify = createJwtVerifier({
+			issuer,
+			jwksUrl: `http://127.0.0.1:${port}/jwks`,
+			audience: ['https://mcp.example.com/jira'],
+		});
+		const ok = await verify(await sign('https://mcp.example.com/jira'));
+		assert.equal(ok.extra?.['principal'], 'alice');
+		await assert.rejects(verify(await sign('https://other.example.com')), /aud/);
+	} finally {
+		jwks.closeAllConnections();
+		await new Promise(resolve => jwks.close(resolve));
+	}
+});
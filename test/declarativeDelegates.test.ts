@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createTemplateSearchDelegate } from '../src/servers/declarativeDelegates.js';
+
+const results = { id: 'key', title: 'summary' };
+
+test('template search arguments receive the page offset and size', () => {
+	const delegate = createTemplateSearchDelegate('jsm', {
+		arguments: { jql: 'text ~ "{{query|quote}}"', start_at: '{{startAt}}', limit: '{{limit}}' },
+		results,
+	});
+	assert.equal(delegate.paged, true);
+	assert.deepEqual(delegate.prepareSearchArguments('a "b"', { startAt: 20, limit: 20 }), {
+		jql: 'text ~ "a \\"b\\""',
+		start_at: 20,
+		limit: 20,
+	});
+});
+
+test('template search arguments without {{startAt}} do not page', () => {
+	const delegate = createTemplateSearchDelegate('jsm', {
+		arguments: { jql: 'text ~ "{{query|quote}}"', limit: 20 },
+		results,
+	});
+	assert.equal(delegate.paged, false);
+});
@@ -0,0 +1,40 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { z } from 'zod';
+
+export interface FakeUpstream {
+	url: string;
+	/** `echo` calls received, by value of the `authorization` header. */
+	calls: string[];
+	close: () => Promise<void>;
+}
+
+/** Stateless MCP server on a free local port with one `echo` tool. */
+export async function startFakeUpstream(): Promise<FakeUpstream> {
+	const calls: string[] = [];
+	const http = createServer(async (req, res) => {
+		const auth = String(req.headers.authorization ?? '');
+		const server = new McpServer({ name: 'fake-upstream', version: '1.0.0' });
+		server.registerTool('echo', { inputSchema: { text: z.string() } }, ({ text }) => {
+			calls.push(auth);
+			return { content: [{ type: 'text', text }] };
+		});
+		const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+		res.on('close', () => void transport.close());
+		await server.connect(transport);
+		await transport.handleRequest(req, res);
+	});
+	await new Promise<void>(resolve => http.listen(0, '127.0.0.1', resolve));
+	const { port } = http.address() as AddressInfo;
+	return {
+		url: `http://127.0.0.1:${port}/mcp`,
+		calls,
+		close: () =>
+			new Promise<void>(resolve => {
+				http.closeAllConnections();
+				http.close(() => resolve());
+			}),
+	};
+}
@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { andClause } from '../src/utils/jql.js';
+
+const deny = 'project not in ("SEC")';
+
+test('andClause parenthesizes the query before the clause', () => {
+	assert.equal(andClause('summary ~ x', deny), `(summary ~ x) AND ${deny}`);
+	assert.equal(andClause('', deny), deny);
+});
+
+test('andClause keeps an OR from escaping the clause', () => {
+	const query = `project = SEC OR summary ~ x AND ${deny}`;
+	assert.equal(andClause(query, deny), `(${query}) AND ${deny}`);
+});
+
+test('andClause keeps ORDER BY after the clause', () => {
+	assert.equal(
+		andClause('text ~ "order by" OR key = A-1 ORDER BY updated DESC', deny),
+		`(text ~ "order by" OR key = A-1) AND ${deny} ORDER BY updated DESC`,
+	);
+});
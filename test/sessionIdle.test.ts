@@ -0,0 +1,58 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { createShimRouter } from '../src/servers/httpServer.js';
+import { JIRA_SHIM_CONFIG } from '../src/servers/jiraServer.js';
+import { createShimRuntime } from '../src/servers/runtime.js';
+import { FakeUpstream, startFakeUpstream } from './fakeUpstream.js';
+
+let upstream: FakeUpstream;
+
+before(async () => {
+	upstream = await startFakeUpstream();
+});
+
+after(async () => {
+	await upstream.close();
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('abandoned streamable sessions are closed and release their upstream lease', async () => {
+	const runtime = createShimRuntime({ SESSION_IDLE_MS: '200' });
+	const shim = createShimRouter({
+		cfg: JIRA_SHIM_CONFIG,
+		upstreamUrls: [upstream.url],
+		staticPrefix: '',
+		runtime,
+	});
+	const app = express();
+	app.use(express.json());
+	app.use(shim.router);
+	const server = await new Promise<Server>(resolve => {
+		const s = app.listen(0, '127.0.0.1', () => resolve(s));
+	});
+	const { port } = server.address() as AddressInfo;
+	const client = new Client({ name: 'test', version: '1.0.0' });
+	try {
+		// Initialize, then walk away without a DELETE.
+		await client.connect(
+			new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)),
+		);
+		assert.equal(Object.keys(shim.sessions).length, 1);
+		assert.ok(shim.status().clients.some(c => c.refs > 0));
+
+		await sleep(600);
+		assert.deepEqual(Object.keys(shim.sessions), []);
+		assert.ok(shim.status().clients.every(c => c.refs === 0));
+	} finally {
+		await client.close();
+		await shim.closeUpstream();
+		server.closeAllConnections();
+		await new Promise(resolve => server.close(resolve));
+	}
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { UpstreamPool } from '../src/servers/upstreamPool.js';
+import { FakeUpstream, startFakeUpstream } from './fakeUpstream.js';
+
+let upstream: FakeUpstream;
+
+before(async () => {
+	upstream = await startFakeUpstream();
+});
+
+after(async () => {
+	await upstream.close();
+});
+
+const credential = (key: string) => ({ key, headers: { authorization: `Bearer ${key}` } });
+
+test('a full pool of leased clients still serves a new credential', async () => {
+	const pool = new UpstreamPool({
+		urls: [upstream.url],
+		label: 'test',
+		idleMs: 60_000,
+		maxClients: 1,
+		replicaCooldownMs: 1_000,
+	});
+	try {
+		const a = await pool.acquire(credential('A'));
+		const b = await pool.acquire(credential('B'));
+		const res = await b.upstream.callTool({ name: 'echo', arguments: { text: 'hi' } });
+		assert.deepEqual(res.content, [{ type: 'text', text: 'hi' }]);
+		assert.deepEqual(upstream.calls.slice(-1), ['Bearer B']);
+		assert.deepEqual(
+			pool.status().map(c => [c.key, c.refs]),
+			[
+				['A', 1],
+				['B', 1],
+			],
+		);
+		// Once a lease ends, the pool shrinks back to its limit.
+		a.release();
+		assert.deepEqual(
+			pool.status().map(c => c.key),
+			['B'],
+		);
+		b.release();
+	} finally {
+		await pool.closeAll();
+	}
+});
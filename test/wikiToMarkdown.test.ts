@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { wikiToMarkdown } from '../src/utils/wikiToMarkdown.js';
+
+test('a panel opened and closed on one line', () => {
+	assert.equal(wikiToMarkdown('{panel:title=P}text{panel}'), '> **P**\n> text');
+});
+
+test('a quote opened and closed on one line', () => {
+	assert.equal(wikiToMarkdown('{quote}q{quote}'), '> q');
+});
+
+test('a closing tag at the end of the last line of text', () => {
+	assert.equal(
+		wikiToMarkdown('{info}\nfirst\nlast{info}\nafter'),
+		'> **Info**\n> first\n> last\n\nafter',
+	);
+});
+
+test('consecutive blocks stay separate blockquotes', () => {
+	assert.equal(wikiToMarkdown('{quote}a{quote}\n{quote}b{quote}'), '> a\n\n> b');
+	assert.equal(
+		wikiToMarkdown('{quote}\na\n{quote}\n{note}\nb\n{note}'),
+		'> a\n\n> **Note**\n> b',
+	);
+});
+
+test('text after a closing tag leaves the block', () => {
+	assert.equal(wikiToMarkdown('{quote}q{quote} and *more*'), '> q\n\nand **more**');
+});